@@ -1,7 +1,24 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  env: {
+    // Versions the service worker's shell caches; changes on every build.
+    NEXT_PUBLIC_BUILD_VERSION: Date.now().toString(36),
+  },
+  async headers() {
+    return [
+      {
+        // Browsers must always revalidate the worker so updates roll out.
+        source: "/sw.js",
+        headers: [
+          {
+            key: "Cache-Control",
+            value: "no-cache, no-store, must-revalidate",
+          },
+        ],
+      },
+    ];
+  },
 };
 
 export default nextConfig;
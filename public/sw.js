@@ -0,0 +1,140 @@
+// Service worker: precaches the app shell and keeps the last /api/lotto
+// responses so the installed app still works offline.
+// Registered as /sw.js?v=<build>; each build gets its own shell caches so a
+// cached page never points at chunks from another build.
+const BUILD = new URL(self.location.href).searchParams.get("v") ?? "dev";
+const SHELL_CACHE = `lotto-shell-${BUILD}`;
+const RUNTIME_CACHE = `lotto-runtime-${BUILD}`;
+const API_CACHE = "lotto-api-v1";
+const CACHES = [SHELL_CACHE, RUNTIME_CACHE, API_CACHE];
+
+const SHELL_URLS = [
+  "/",
+  "/manifest.json",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => !CACHES.includes(key))
+            .map((key) => caches.delete(key)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+// Serve the cached copy right away and refresh it in the background.
+async function staleWhileRevalidate(event) {
+  const { request } = event;
+  const cache = await caches.open(API_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok) {
+        cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch(() => null);
+  event.waitUntil(network);
+  if (cached) {
+    return cached;
+  }
+  const response = await network;
+  return response ?? Response.error();
+}
+
+// The page loads its /_next/static chunks before this worker controls it,
+// so the registrar posts their URLs here to be cached for offline use.
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "CACHE_URLS" || !Array.isArray(event.data.urls)) {
+    return;
+  }
+  const urls = event.data.urls.filter((url) => {
+    const parsed = new URL(url, self.location.origin);
+    return (
+      parsed.origin === self.location.origin &&
+      parsed.pathname.startsWith("/_next/static/")
+    );
+  });
+  event.waitUntil(
+    caches.open(RUNTIME_CACHE).then((cache) =>
+      Promise.all(
+        urls.map((url) =>
+          cache
+            .match(url)
+            .then((hit) => hit ?? cache.add(url))
+            .catch((error) => console.warn("Precache failed", url, error)),
+        ),
+      ),
+    ),
+  );
+});
+
+async function cacheFirst(request) {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(request);
+  if (response.ok) {
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirstPage(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(request)) ?? (await cache.match("/"));
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") {
+    return;
+  }
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) {
+    return;
+  }
+  if (url.pathname === "/api/lotto") {
+    event.respondWith(staleWhileRevalidate(event));
+    return;
+  }
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirstPage(request));
+  }
+});
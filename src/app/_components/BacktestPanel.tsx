@@ -0,0 +1,137 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { ALGORITHMS } from "@/lib/lotto/algorithms";
+import type { BacktestReport, BacktestStrategy } from "@/lib/lotto/backtest";
+import styles from "../page.module.css";
+import { formatWon } from "./formatWon";
+
+type RunState = "idle" | "running" | "done" | "error";
+
+function strategyLabel(strategy: BacktestStrategy) {
+  return strategy === "random" ? "무작위 (기준)" : ALGORITHMS[strategy].label;
+}
+
+function formatPercent(value: number, digits = 1) {
+  return `${(value * 100).toFixed(digits)}%`;
+}
+
+function formatSigned(value: number, digits = 3) {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(digits)}`;
+}
+
+export default function BacktestPanel() {
+  const [lastN, setLastN] = useState("52");
+  const [tickets, setTickets] = useState("5");
+  const [status, setStatus] = useState<RunState>("idle");
+  const [message, setMessage] = useState<string | null>(null);
+  const [report, setReport] = useState<BacktestReport | null>(null);
+
+  const run = useCallback(async () => {
+    setStatus("running");
+    setMessage(null);
+    try {
+      const params = new URLSearchParams({ lastN, tickets });
+      const response = await fetch(`/api/lotto/backtest?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error ?? `HTTP ${response.status}`);
+      }
+      setReport(data as BacktestReport);
+      setStatus("done");
+    } catch (error) {
+      console.warn("Backtest failed", error);
+      setStatus("error");
+      setMessage("백테스트에 실패했습니다. 입력값을 확인해 주세요.");
+    }
+  }, [lastN, tickets]);
+
+  return (
+    <section className={styles.card}>
+      <div className={styles.cardHeader}>
+        <div className={styles.cardTitle}>알고리즘 백테스트</div>
+        <div className={styles.cardHint}>과거 회차로 추천 방식 검증</div>
+      </div>
+      <div className={styles.checkControls}>
+        <label className={styles.field}>
+          <span>최근 회차 수</span>
+          <input
+            className={styles.input}
+            inputMode="numeric"
+            value={lastN}
+            onChange={(event) => setLastN(event.target.value)}
+          />
+        </label>
+        <label className={styles.field}>
+          <span>회차당 게임</span>
+          <input
+            className={styles.input}
+            inputMode="numeric"
+            value={tickets}
+            onChange={(event) => setTickets(event.target.value)}
+          />
+        </label>
+      </div>
+      <button
+        type="button"
+        className={styles.button}
+        onClick={run}
+        disabled={status === "running"}
+      >
+        {status === "running" ? "계산 중…" : "백테스트 실행"}
+      </button>
+      {message ? <p className={styles.qrMessage}>{message}</p> : null}
+      {status === "done" && report ? (
+        <>
+          <div className={styles.sourceInfo}>
+            {report.fromDraw}–{report.toDraw}회 ({report.drawCount}회) · 회차당{" "}
+            {report.ticketsPerDraw}게임 · 이론 평균 일치{" "}
+            {report.expectedMeanMatches.toFixed(3)}개 · 시드 {report.seed}
+          </div>
+          <div className={styles.tableWrap}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>방식</th>
+                  <th>3개</th>
+                  <th>4개</th>
+                  <th>5개</th>
+                  <th>6개</th>
+                  <th>평균 일치</th>
+                  <th>당첨률</th>
+                  <th>회수율</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.results.map((row) => (
+                  <tr key={row.strategy}>
+                    <th>{strategyLabel(row.strategy)}</th>
+                    <td>{row.matchDistribution[3]}</td>
+                    <td>{row.matchDistribution[4]}</td>
+                    <td>{row.matchDistribution[5]}</td>
+                    <td>{row.matchDistribution[6]}</td>
+                    <td>
+                      {row.meanMatches.toFixed(3)}
+                      {row.vsRandom ? (
+                        <span className={styles.tableDelta}>
+                          {formatSigned(row.vsRandom.meanMatchDelta)}
+                        </span>
+                      ) : null}
+                    </td>
+                    <td>{formatPercent(row.winRate, 2)}</td>
+                    <td>{formatPercent(row.returnRate)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className={styles.cardHint}>
+            회수율은 실제 1등 당첨금을 쓰고, 2·3등과 당첨금 정보가 없는 회차는
+            과거 평균 당첨금으로 가정한 추정치입니다. 게임당{" "}
+            {formatWon(report.ticketPrice)} 기준.
+          </div>
+        </>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,56 @@
+import styles from "../page.module.css";
+import { getBallClass } from "./ballClass";
+import { formatRank, type CheckResponse } from "./checkTickets";
+import DrawBalls from "./DrawBalls";
+
+type CheckResultViewProps = {
+  result: CheckResponse;
+  labels?: string[];
+};
+
+export default function CheckResultView({
+  result,
+  labels,
+}: CheckResultViewProps) {
+  return (
+    <div className={styles.checkResult}>
+      <div className={styles.cardHint}>
+        {result.drawNo}회 ({result.drawDate}) 당첨번호
+      </div>
+      <DrawBalls draw={result} />
+      {result.results.map((ticketResult, index) => (
+        <div
+          key={`result-${ticketResult.ticket.join("-")}-${index}`}
+          className={styles.ticketRow}
+        >
+          {labels?.[index] ? (
+            <span className={styles.ticketLabel}>{labels[index]}</span>
+          ) : null}
+          <div className={styles.numbers}>
+            {ticketResult.ticket.map((num) => (
+              <span
+                key={`ticket-${index}-${num}`}
+                className={`${styles.ball} ${styles.ballSmall} ${getBallClass(num)} ${
+                  ticketResult.matched.includes(num) ||
+                  (ticketResult.bonusMatched && num === result.bonus)
+                    ? styles.ballHit
+                    : styles.ballMiss
+                }`}
+              >
+                {num}
+              </span>
+            ))}
+          </div>
+          <span
+            className={`${styles.rankBadge} ${
+              ticketResult.rank ? styles.rankWin : ""
+            }`}
+          >
+            {formatRank(ticketResult)}
+            {ticketResult.bonusMatched ? " · 보너스" : ""}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import {
+  DEFAULT_CONSTRAINTS,
+  GROUP_LABELS,
+  type CountRange,
+  type PickConstraints,
+} from "@/lib/lotto/constraints";
+import styles from "../page.module.css";
+
+type ConstraintEditorProps = {
+  value: PickConstraints;
+  onChange: (value: PickConstraints) => void;
+  /** balancedPick only reads the per-group counts. */
+  groupsOnly?: boolean;
+};
+
+type RangeKey = "oddCount" | "sum" | "highCount";
+
+const RANGE_FIELDS: { key: RangeKey; label: string }[] = [
+  { key: "oddCount", label: "홀수 개수" },
+  { key: "sum", label: "합계" },
+  { key: "highCount", label: "고번호(23+) 개수" },
+];
+
+function parseNumberList(text: string) {
+  const numbers = text
+    .split(/[\s,]+/)
+    .map(Number)
+    .filter((n) => Number.isInteger(n) && n >= 1 && n <= 45);
+  return [...new Set(numbers)].sort((a, b) => a - b);
+}
+
+export default function ConstraintEditor({
+  value,
+  onChange,
+  groupsOnly = false,
+}: ConstraintEditorProps) {
+  const [requiredText, setRequiredText] = useState(value.required.join(", "));
+  const [excludedText, setExcludedText] = useState(value.excluded.join(", "));
+
+  const setRange = (key: RangeKey, part: keyof CountRange, raw: string) => {
+    onChange({ ...value, [key]: { ...value[key], [part]: Number(raw) } });
+  };
+
+  const setGroup = (index: number, raw: string) => {
+    const groupCounts = [...value.groupCounts];
+    groupCounts[index] = raw === "" ? null : Number(raw);
+    onChange({ ...value, groupCounts });
+  };
+
+  const reset = () => {
+    setRequiredText("");
+    setExcludedText("");
+    onChange(DEFAULT_CONSTRAINTS);
+  };
+
+  return (
+    <details className={styles.constraints}>
+      <summary>{groupsOnly ? "구간별 개수 설정" : "조건 설정"}</summary>
+      {groupsOnly ? null : (
+        <div className={styles.constraintGrid}>
+          {RANGE_FIELDS.map(({ key, label }) => (
+            <label key={key} className={styles.field}>
+              <span>{label}</span>
+              <div className={styles.rangeInputs}>
+                <input
+                  className={styles.input}
+                  type="number"
+                  value={value[key].min}
+                  onChange={(event) => setRange(key, "min", event.target.value)}
+                />
+                <span>–</span>
+                <input
+                  className={styles.input}
+                  type="number"
+                  value={value[key].max}
+                  onChange={(event) => setRange(key, "max", event.target.value)}
+                />
+              </div>
+            </label>
+          ))}
+          <label className={styles.field}>
+            <span>최대 연속 번호</span>
+            <input
+              className={styles.input}
+              type="number"
+              min={1}
+              max={6}
+              value={value.maxConsecutive}
+              onChange={(event) =>
+                onChange({
+                  ...value,
+                  maxConsecutive: Number(event.target.value),
+                })
+              }
+            />
+          </label>
+          <label className={styles.field}>
+            <span>포함 번호</span>
+            <input
+              className={styles.input}
+              placeholder="예: 7, 21"
+              value={requiredText}
+              onChange={(event) => setRequiredText(event.target.value)}
+              onBlur={() =>
+                onChange({
+                  ...value,
+                  required: parseNumberList(requiredText),
+                })
+              }
+            />
+          </label>
+          <label className={styles.field}>
+            <span>제외 번호</span>
+            <input
+              className={styles.input}
+              placeholder="예: 4, 13"
+              value={excludedText}
+              onChange={(event) => setExcludedText(event.target.value)}
+              onBlur={() =>
+                onChange({
+                  ...value,
+                  excluded: parseNumberList(excludedText),
+                })
+              }
+            />
+          </label>
+        </div>
+      )}
+      <div className={styles.field}>
+        <span>구간별 개수 (비우면 제한 없음)</span>
+        <div className={styles.groupInputs}>
+          {GROUP_LABELS.map((label, index) => (
+            <label key={label} className={styles.field}>
+              <span>{label}</span>
+              <input
+                className={styles.input}
+                type="number"
+                min={0}
+                value={value.groupCounts[index] ?? ""}
+                onChange={(event) => setGroup(index, event.target.value)}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+      <button type="button" className={styles.button} onClick={reset}>
+        기본값으로
+      </button>
+    </details>
+  );
+}
@@ -0,0 +1,28 @@
+import type { Draw } from "@/lib/lotto/types";
+import styles from "../page.module.css";
+import { getBallClass } from "./ballClass";
+
+type DrawBallsProps = {
+  draw: Pick<Draw, "numbers" | "bonus">;
+};
+
+export default function DrawBalls({ draw }: DrawBallsProps) {
+  return (
+    <div className={styles.numbers}>
+      {draw.numbers.map((num) => (
+        <span
+          key={num}
+          className={`${styles.ball} ${styles.ballSmall} ${getBallClass(num)}`}
+        >
+          {num}
+        </span>
+      ))}
+      <span className={styles.bonusPlus}>+</span>
+      <span
+        className={`${styles.ball} ${styles.ballSmall} ${getBallClass(draw.bonus)}`}
+      >
+        {draw.bonus}
+      </span>
+    </div>
+  );
+}
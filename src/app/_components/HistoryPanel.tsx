@@ -0,0 +1,240 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from "react";
+import { ALGORITHMS, isAlgoMode } from "@/lib/lotto/algorithms";
+import type { HistoryEntry } from "@/lib/lotto/ticketHistory";
+import styles from "../page.module.css";
+import { checkTickets, formatRank } from "./checkTickets";
+import { formatWon } from "./formatWon";
+import {
+  entryCost,
+  estimateWinnings,
+  removeHistoryEntry,
+  updateHistoryEntry,
+  useTicketHistory,
+} from "./ticketHistory";
+
+type HistoryPanelProps = {
+  /** Latest draw reported by /api/lotto; null until live data is loaded. */
+  latestDraw: number | null;
+};
+
+function algorithmLabel(entry: HistoryEntry) {
+  if (entry.source === "scanned") {
+    return "QR 스캔";
+  }
+  if (isAlgoMode(entry.algorithm)) {
+    return ALGORITHMS[entry.algorithm].label;
+  }
+  return entry.algorithm === "wheel" ? "번호 풀 분산" : entry.algorithm;
+}
+
+async function exportHistory(entries: HistoryEntry[], format: "csv" | "json") {
+  try {
+    const response = await fetch("/api/lotto/export/tickets", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ entries, format }),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const filename =
+      /filename="([^"]+)"/.exec(
+        response.headers.get("content-disposition") ?? "",
+      )?.[1] ?? `lotto-tickets.${format}`;
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Some browsers start the download asynchronously after click().
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  } catch (error) {
+    console.warn("Failed to export tickets", error);
+  }
+}
+
+function bestRank(entry: HistoryEntry) {
+  const ranked = entry.result?.results.filter((item) => item.rank !== null);
+  if (!ranked?.length) {
+    return null;
+  }
+  return ranked.reduce((best, item) =>
+    (item.rank ?? 99) < (best.rank ?? 99) ? item : best,
+  );
+}
+
+export default function HistoryPanel({ latestDraw }: HistoryPanelProps) {
+  const history = useTicketHistory();
+  const grading = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (latestDraw === null) {
+      return;
+    }
+    const due = history.filter(
+      (entry) =>
+        !entry.result &&
+        entry.targetDraw <= latestDraw &&
+        !grading.current.has(entry.id),
+    );
+    for (const entry of due) {
+      grading.current.add(entry.id);
+      checkTickets(entry.tickets, entry.targetDraw)
+        .then((checked) =>
+          updateHistoryEntry(entry.id, {
+            result: {
+              drawDate: checked.drawDate,
+              results: checked.results,
+              winnings: estimateWinnings(checked.results),
+              gradedAt: new Date().toISOString(),
+            },
+          }),
+        )
+        .catch((error) => console.warn("Failed to grade", entry.id, error))
+        .finally(() => grading.current.delete(entry.id));
+    }
+  }, [history, latestDraw]);
+
+  const timeline = useMemo(() => {
+    const graded = history
+      .filter((entry) => entry.result)
+      .sort((a, b) => a.targetDraw - b.targetDraw);
+    const points: {
+      entry: HistoryEntry;
+      spend: number;
+      winnings: number;
+      hits: number;
+    }[] = [];
+    for (const entry of graded) {
+      const previous = points[points.length - 1];
+      points.push({
+        entry,
+        spend: (previous?.spend ?? 0) + entryCost(entry),
+        winnings: (previous?.winnings ?? 0) + entry.result!.winnings,
+        hits:
+          (previous?.hits ?? 0) +
+          entry.result!.results.filter((item) => item.rank).length,
+      });
+    }
+    return points;
+  }, [history]);
+
+  const totals = timeline[timeline.length - 1];
+  const pending = history.filter((entry) => !entry.result).length;
+
+  return (
+    <section className={styles.card}>
+      <div className={styles.cardHeader}>
+        <div className={styles.cardTitle}>내 번호</div>
+        <div className={styles.cardHint}>
+          저장한 번호는 추첨 후 자동으로 채점됩니다
+        </div>
+      </div>
+      {history.length === 0 ? (
+        <div className={styles.cardHint}>
+          추천 번호를 저장하거나 복권 QR을 스캔하면 여기에 기록됩니다.
+        </div>
+      ) : (
+        <>
+          <div className={styles.summaryGrid}>
+            <div>
+              <span>채점 완료</span>
+              <strong>{timeline.length}건</strong>
+            </div>
+            <div>
+              <span>추첨 대기</span>
+              <strong>{pending}건</strong>
+            </div>
+            <div>
+              <span>누적 당첨</span>
+              <strong>{totals?.hits ?? 0}게임</strong>
+            </div>
+            <div>
+              <span>구매 / 당첨금</span>
+              <strong>
+                {formatWon(totals?.spend ?? 0)} /{" "}
+                {formatWon(totals?.winnings ?? 0)}
+              </strong>
+            </div>
+          </div>
+          <div className={styles.tableWrap}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>회차</th>
+                  <th>방식</th>
+                  <th>게임</th>
+                  <th>결과</th>
+                  <th>누적 손익</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {history.map((entry) => {
+                  const point = timeline.find(
+                    (item) => item.entry.id === entry.id,
+                  );
+                  const best = bestRank(entry);
+                  return (
+                    <tr key={entry.id}>
+                      <th>{entry.targetDraw}회</th>
+                      <td>
+                        {algorithmLabel(entry)}
+                        {entry.seed !== null ? (
+                          <span className={styles.tableDelta}>
+                            시드 {entry.seed}
+                          </span>
+                        ) : null}
+                      </td>
+                      <td>{entry.tickets.length}</td>
+                      <td>
+                        {entry.result
+                          ? best
+                            ? formatRank(best)
+                            : "낙첨"
+                          : "추첨 대기"}
+                      </td>
+                      <td>
+                        {point ? formatWon(point.winnings - point.spend) : "-"}
+                      </td>
+                      <td>
+                        <button
+                          type="button"
+                          className={styles.copyButton}
+                          onClick={() => removeHistoryEntry(entry.id)}
+                        >
+                          삭제
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className={styles.cardHint}>
+            1등은 실제 지급액, 2–3등은 과거 평균 금액으로 가정한 추정치입니다.
+          </div>
+          <div className={styles.slipControls}>
+            <button
+              type="button"
+              className={styles.copyButton}
+              onClick={() => exportHistory(history, "csv")}
+            >
+              CSV 내보내기
+            </button>
+            <button
+              type="button"
+              className={styles.copyButton}
+              onClick={() => exportHistory(history, "json")}
+            >
+              JSON 내보내기
+            </button>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
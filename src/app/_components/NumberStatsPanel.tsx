@@ -0,0 +1,107 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { NumberStats } from "@/lib/lotto/gaps";
+import styles from "../page.module.css";
+import { getBallClass } from "./ballClass";
+
+type SortKey = Exclude<keyof NumberStats, "lastDrawn">;
+
+type NumberStatsPanelProps = {
+  stats: NumberStats[];
+};
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: "num", label: "번호" },
+  { key: "count", label: "출현" },
+  { key: "currentGap", label: "현재 미출현" },
+  { key: "averageGap", label: "평균 간격" },
+  { key: "maxGap", label: "최대 간격" },
+  { key: "longestStreak", label: "최장 연속" },
+];
+
+/** How overdue a number is: current gap over its average, capped at 3×. */
+function overdueRatio(item: NumberStats) {
+  if (!item.averageGap) {
+    return item.currentGap > 0 ? 1 : 0;
+  }
+  return Math.min(3, item.currentGap / item.averageGap);
+}
+
+function heatStyle(item: NumberStats) {
+  const alpha = (overdueRatio(item) / 3) * 0.6;
+  return { backgroundColor: `rgba(214, 80, 48, ${alpha.toFixed(2)})` };
+}
+
+export default function NumberStatsPanel({ stats }: NumberStatsPanelProps) {
+  const [sortKey, setSortKey] = useState<SortKey>("currentGap");
+  const [descending, setDescending] = useState(true);
+
+  const sorted = useMemo(() => {
+    const direction = descending ? -1 : 1;
+    return [...stats].sort((a, b) => {
+      const diff = (a[sortKey] ?? -1) - (b[sortKey] ?? -1);
+      return diff !== 0 ? diff * direction : a.num - b.num;
+    });
+  }, [stats, sortKey, descending]);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending((value) => !value);
+    } else {
+      setSortKey(key);
+      setDescending(key !== "num");
+    }
+  };
+
+  return (
+    <section className={styles.card}>
+      <div className={styles.cardHeader}>
+        <div className={styles.cardTitle}>미출현 · 연속 통계</div>
+        <div className={styles.cardHint}>
+          색이 진할수록 평균 간격보다 오래 나오지 않은 번호
+        </div>
+      </div>
+      <div className={styles.tableWrap}>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              {COLUMNS.map((column) => (
+                <th key={column.key}>
+                  <button
+                    type="button"
+                    className={styles.sortHeader}
+                    onClick={() => toggleSort(column.key)}
+                  >
+                    {column.label}
+                    {sortKey === column.key ? (descending ? " ▼" : " ▲") : ""}
+                  </button>
+                </th>
+              ))}
+              <th>마지막 회차</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((item) => (
+              <tr key={item.num}>
+                <th>
+                  <span
+                    className={`${styles.ball} ${styles.ballSmall} ${getBallClass(item.num)}`}
+                  >
+                    {item.num}
+                  </span>
+                </th>
+                <td>{item.count}</td>
+                <td style={heatStyle(item)}>{item.currentGap}</td>
+                <td>{item.averageGap?.toFixed(1) ?? "-"}</td>
+                <td>{item.maxGap}</td>
+                <td>{item.longestStreak}</td>
+                <td>{item.lastDrawn ? `${item.lastDrawn}회` : "-"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
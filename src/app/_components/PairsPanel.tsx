@@ -0,0 +1,53 @@
+"use client";
+
+import type { ComboStat } from "@/lib/lotto/pairs";
+import styles from "../page.module.css";
+import { getBallClass } from "./ballClass";
+
+type PairsPanelProps = {
+  pairs: ComboStat[];
+};
+
+export default function PairsPanel({ pairs }: PairsPanelProps) {
+  return (
+    <section className={styles.card}>
+      <div className={styles.cardHeader}>
+        <div className={styles.cardTitle}>함께 나온 번호</div>
+        <div className={styles.cardHint}>리프트 1 = 우연과 같은 빈도</div>
+      </div>
+      <div className={styles.tableWrap}>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>번호 쌍</th>
+              <th>동반 출현</th>
+              <th>기대값</th>
+              <th>리프트</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pairs.map((pair) => (
+              <tr key={pair.numbers.join("-")}>
+                <th>
+                  <div className={styles.numbers}>
+                    {pair.numbers.map((num) => (
+                      <span
+                        key={num}
+                        className={`${styles.ball} ${styles.ballSmall} ${getBallClass(num)}`}
+                      >
+                        {num}
+                      </span>
+                    ))}
+                  </div>
+                </th>
+                <td>{pair.count}</td>
+                <td>{pair.expected.toFixed(1)}</td>
+                <td>{pair.lift.toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
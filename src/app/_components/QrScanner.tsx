@@ -1,34 +1,91 @@
 "use client";
 
-import { BrowserMultiFormatReader } from "@zxing/browser";
+import { BrowserMultiFormatReader, type IScannerControls } from "@zxing/browser";
 import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  parseTicketQr,
+  type TicketQr,
+  type TicketQrErrorReason,
+} from "@/lib/lotto/ticketQr";
 import styles from "../page.module.css";
+import CheckResultView from "./CheckResultView";
+import { checkTickets, type CheckResponse } from "./checkTickets";
+import { addHistoryEntry, hasHistoryEntry } from "./ticketHistory";
 
-type ScanState = "idle" | "running" | "error" | "success";
+type ScanState = "idle" | "running" | "checking" | "error" | "success";
+
+const QR_ERROR_MESSAGES: Record<TicketQrErrorReason, string> = {
+  notUrl: "QR에 링크가 포함되어 있지 않습니다.",
+  notLotto: "로또 6/45 복권 QR이 아닙니다.",
+  malformed: "복권 QR 내용을 해석할 수 없습니다.",
+};
 
 export default function QrScanner() {
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const readerRef = useRef<BrowserMultiFormatReader | null>(null);
+  const controlsRef = useRef<IScannerControls | null>(null);
+  const handledRef = useRef(false);
   const [status, setStatus] = useState<ScanState>("idle");
   const [message, setMessage] = useState<string>(
     "카메라 접근을 허용하면 QR을 인식합니다.",
   );
   const [lastUrl, setLastUrl] = useState<string | null>(null);
   const [showScanner, setShowScanner] = useState(false);
+  const [ticket, setTicket] = useState<TicketQr | null>(null);
+  const [result, setResult] = useState<CheckResponse | null>(null);
 
   const stop = useCallback(() => {
+    controlsRef.current?.stop();
+    controlsRef.current = null;
     if (videoRef.current?.srcObject) {
       const stream = videoRef.current.srcObject as MediaStream;
       stream.getTracks().forEach((track) => track.stop());
       videoRef.current.srcObject = null;
     }
     readerRef.current = null;
-    setStatus("idle");
+    setStatus((prev) => (prev === "running" ? "idle" : prev));
     setShowScanner(false);
   }, []);
 
+  const checkTicket = useCallback(async (parsed: TicketQr) => {
+    setStatus("checking");
+    setMessage(`${parsed.drawNo}회 복권을 확인하는 중입니다…`);
+    try {
+      const checked = await checkTickets(
+        parsed.games.map((game) => game.numbers),
+        parsed.drawNo,
+      );
+      setResult(checked);
+      setStatus("success");
+      const best = checked.results.reduce<number | null>(
+        (acc, item) =>
+          item.rank !== null && (acc === null || item.rank < acc)
+            ? item.rank
+            : acc,
+        null,
+      );
+      setMessage(
+        best === null
+          ? `${parsed.drawNo}회 결과: 당첨된 게임이 없습니다.`
+          : `${parsed.drawNo}회 결과: 최고 ${best}등 당첨!`,
+      );
+    } catch (error) {
+      console.warn(error);
+      setStatus("error");
+      setMessage(
+        (error as { status?: number }).status === 404
+          ? `${parsed.drawNo}회는 아직 추첨 전이거나 당첨 데이터가 없습니다.`
+          : "당첨 데이터를 불러오지 못했습니다. 잠시 후 다시 시도해 주세요.",
+      );
+    }
+  }, []);
+
   const start = useCallback(async () => {
     try {
+      handledRef.current = false;
+      setTicket(null);
+      setResult(null);
+      setLastUrl(null);
       setShowScanner(true);
       setStatus("running");
       setMessage("QR 코드를 카메라에 비춰 주세요.");
@@ -56,21 +113,41 @@ export default function QrScanner() {
       videoRef.current.playsInline = true;
       await videoRef.current.play();
 
-      await reader.decodeFromVideoDevice(
+      controlsRef.current = await reader.decodeFromVideoDevice(
         deviceId,
         videoRef.current,
         (result, error) => {
-          if (result) {
+          if (result && !handledRef.current) {
             const text = result.getText();
-            if (text.startsWith("http://") || text.startsWith("https://")) {
-              setLastUrl(text);
-              setStatus("success");
-              setMessage("링크를 확인했습니다. 새 창으로 이동합니다.");
-              window.open(text, "_blank", "noopener,noreferrer");
+            try {
+              const parsed = parseTicketQr(text);
+              handledRef.current = true;
+              setLastUrl(parsed.url);
+              setTicket(parsed);
+              const tickets = parsed.games.map((game) => game.numbers);
+              if (!hasHistoryEntry(parsed.drawNo, tickets)) {
+                addHistoryEntry({
+                  source: "scanned",
+                  algorithm: "qr",
+                  seed: null,
+                  targetDraw: parsed.drawNo,
+                  tickets,
+                });
+              }
               stop();
-            } else {
+              void checkTicket(parsed);
+            } catch (parseError) {
+              const reason = (parseError as { reason?: TicketQrErrorReason })
+                .reason;
               setStatus("error");
-              setMessage("QR에 링크가 포함되어 있지 않습니다.");
+              setMessage(
+                reason
+                  ? QR_ERROR_MESSAGES[reason]
+                  : QR_ERROR_MESSAGES.malformed,
+              );
+              if (reason !== "notUrl") {
+                setLastUrl(text);
+              }
             }
           }
           if (error && (error as { name?: string }).name !== "NotFoundException") {
@@ -83,7 +160,13 @@ export default function QrScanner() {
       setStatus("error");
       setMessage("카메라 접근 또는 QR 인식에 실패했습니다.");
     }
-  }, [stop]);
+  }, [stop, checkTicket]);
+
+  const openExternal = useCallback(() => {
+    if (lastUrl) {
+      window.open(lastUrl, "_blank", "noopener,noreferrer");
+    }
+  }, [lastUrl]);
 
   useEffect(() => () => void stop(), [stop]);
 
@@ -91,16 +174,39 @@ export default function QrScanner() {
     <div className={styles.qrCard}>
       <div className={styles.cardHeader}>
         <div className={styles.cardTitle}>QR 스캔 당첨 확인</div>
-        <div className={styles.cardHint}>스캔 후 당첨 확인 페이지로 이동</div>
+        <div className={styles.cardHint}>복권 QR을 스캔해 게임별 결과 확인</div>
       </div>
       {!showScanner ? (
-        <button
-          type="button"
-          className={`${styles.button} ${styles.buttonPrimary}`}
-          onClick={start}
-        >
-          QR 스캔 당첨 확인
-        </button>
+        <>
+          <button
+            type="button"
+            className={`${styles.button} ${styles.buttonPrimary}`}
+            onClick={start}
+            disabled={status === "checking"}
+          >
+            {ticket ? "다른 복권 스캔" : "QR 스캔 당첨 확인"}
+          </button>
+          {status !== "idle" ? (
+            <p className={styles.qrMessage}>{message}</p>
+          ) : null}
+          {ticket && result ? (
+            <CheckResultView
+              result={result}
+              labels={ticket.games.map((game) => game.label)}
+            />
+          ) : null}
+          {lastUrl ? (
+            <div className={styles.qrButtons}>
+              <button
+                type="button"
+                className={styles.button}
+                onClick={openExternal}
+              >
+                동행복권 페이지 열기
+              </button>
+            </div>
+          ) : null}
+        </>
       ) : (
         <div className={styles.qrBody}>
           <div className={styles.qrPreview}>
@@ -123,6 +229,17 @@ export default function QrScanner() {
                 마지막 링크: <span>{lastUrl}</span>
               </p>
             ) : null}
+            {lastUrl ? (
+              <div className={styles.qrButtons}>
+                <button
+                  type="button"
+                  className={styles.button}
+                  onClick={openExternal}
+                >
+                  링크 열기
+                </button>
+              </div>
+            ) : null}
           </div>
         </div>
       )}
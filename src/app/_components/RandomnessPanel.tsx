@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { RandomnessReport } from "@/lib/lotto/randomness";
+import styles from "../page.module.css";
+
+type RandomnessPanelProps = {
+  /** Bumped by the page when fresh draw data arrives. */
+  latestDraw: number;
+};
+
+function formatP(value: number) {
+  return value < 0.001 ? "< 0.001" : value.toFixed(3);
+}
+
+function verdict(pValue: number, alpha: number) {
+  return pValue < alpha
+    ? "무작위와 차이가 있음"
+    : "무작위 추첨과 구분되지 않음";
+}
+
+export default function RandomnessPanel({ latestDraw }: RandomnessPanelProps) {
+  const [report, setReport] = useState<RandomnessReport | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await fetch("/api/lotto/randomness");
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        const data = (await response.json()) as RandomnessReport;
+        if (!cancelled) {
+          setReport(data);
+          setFailed(false);
+        }
+      } catch (error) {
+        console.warn("Failed to load randomness report", error);
+        if (!cancelled) {
+          setFailed(true);
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [latestDraw]);
+
+  if (failed) {
+    return null;
+  }
+
+  const extremes = report
+    ? [...report.numbers]
+        .sort((a, b) => Math.abs(b.z) - Math.abs(a.z))
+        .slice(0, 5)
+    : [];
+  const significantNumbers =
+    report?.numbers.filter((item) => item.pValue < report.bonferroniAlpha) ??
+    [];
+  const significantRuns =
+    report?.runs.filter(
+      (item) => item.pValue !== null && item.pValue < report.bonferroniAlpha,
+    ) ?? [];
+
+  return (
+    <section className={styles.card}>
+      <div className={styles.cardHeader}>
+        <div className={styles.cardTitle}>무작위성 검정</div>
+        <div className={styles.cardHint}>
+          {report ? `${report.drawCount}회차 기준` : "계산 중…"}
+        </div>
+      </div>
+      {report ? (
+        <>
+          <div className={styles.tableWrap}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>검정</th>
+                  <th>통계량</th>
+                  <th>p-값</th>
+                  <th>판정</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <th>번호별 빈도 (χ²)</th>
+                  <td>
+                    {report.frequency.statistic.toFixed(1)} (df{" "}
+                    {report.frequency.df})
+                  </td>
+                  <td>{formatP(report.frequency.pValue)}</td>
+                  <td>{verdict(report.frequency.pValue, report.alpha)}</td>
+                </tr>
+                <tr>
+                  <th>홀짝 분포 (χ²)</th>
+                  <td>
+                    {report.oddEven.statistic.toFixed(1)} (df{" "}
+                    {report.oddEven.df})
+                  </td>
+                  <td>{formatP(report.oddEven.pValue)}</td>
+                  <td>{verdict(report.oddEven.pValue, report.alpha)}</td>
+                </tr>
+                <tr>
+                  <th>합계 분포 (χ²)</th>
+                  <td>
+                    {report.sum.statistic.toFixed(1)} (df {report.sum.df})
+                    <span className={styles.tableDelta}>
+                      평균 {report.sum.mean?.toFixed(1) ?? "-"} / 기대{" "}
+                      {report.sum.expectedMean}
+                    </span>
+                  </td>
+                  <td>{formatP(report.sum.pValue)}</td>
+                  <td>{verdict(report.sum.pValue, report.alpha)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <div className={styles.cardHint}>
+            빈도 편차가 가장 큰 번호:{" "}
+            {extremes
+              .map(
+                (item) =>
+                  `${item.num}번 (z ${item.z >= 0 ? "+" : ""}${item.z.toFixed(2)}, p ${formatP(item.pValue)})`,
+              )
+              .join(", ")}
+          </div>
+          <div className={styles.cardHint}>
+            45개 번호를 동시에 검정하므로 p &lt;{" "}
+            {report.bonferroniAlpha.toFixed(4)} (본페로니 보정)일 때만
+            유의합니다. 빈도 유의 번호 {significantNumbers.length}개, 출현
+            패턴(런 검정) 유의 번호 {significantRuns.length}개. 많이 나온 번호가
+            다음에도 잘 나온다는 근거는 아닙니다.
+          </div>
+        </>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useEffect } from "react";
+
+/** Script and stylesheet URLs the current page has already loaded. */
+function loadedAssetUrls() {
+  const urls = new Set<string>();
+  document
+    .querySelectorAll<HTMLScriptElement>("script[src]")
+    .forEach((script) => urls.add(script.src));
+  document
+    .querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"]')
+    .forEach((link) => urls.add(link.href));
+  for (const entry of performance.getEntriesByType("resource")) {
+    urls.add(entry.name);
+  }
+  return [...urls];
+}
+
+/**
+ * Registers /sw.js in production builds (dev keeps hot reload uncached) and
+ * hands it this page's chunks, so the app works offline after one visit.
+ */
+export default function ServiceWorkerRegistrar() {
+  useEffect(() => {
+    if (
+      process.env.NODE_ENV !== "production" ||
+      !("serviceWorker" in navigator)
+    ) {
+      return;
+    }
+    navigator.serviceWorker
+      .register(`/sw.js?v=${process.env.NEXT_PUBLIC_BUILD_VERSION}`)
+      .then(() => navigator.serviceWorker.ready)
+      .then((registration) =>
+        registration.active?.postMessage({
+          type: "CACHE_URLS",
+          urls: loadedAssetUrls(),
+        }),
+      )
+      .catch((error) =>
+        console.warn("Service worker registration failed", error),
+      );
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,307 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { CumulativeFrame, NumberTrend } from "@/lib/lotto/trends";
+import type { RankingItem } from "@/lib/lotto/types";
+import styles from "../page.module.css";
+import { getBallClass } from "./ballClass";
+
+type StatsDashboardProps = {
+  ranking: RankingItem[];
+  /** Trends and the cumulative replay need the live draw history. */
+  live: boolean;
+};
+
+type TrendsResponse = {
+  rolling: number;
+  trends: NumberTrend[];
+  frames: CumulativeFrame[];
+};
+
+const MAX_SELECTED = 6;
+const ALL_NUMBERS = Array.from({ length: 45 }, (_, index) => index + 1);
+const ROLLING_OPTIONS = [26, 52, 104];
+const FRAME_MS = 80;
+const LINE_COLORS = [
+  "#1e6b5c",
+  "#d65030",
+  "#2f6fd6",
+  "#b8860b",
+  "#8e44ad",
+  "#2c3e50",
+];
+
+const BAR_WIDTH = 10;
+const BAR_CHART_HEIGHT = 160;
+const TREND_WIDTH = 450;
+const TREND_HEIGHT = 160;
+
+function FrequencyBars({
+  counts,
+  selected,
+  onToggle,
+}: {
+  counts: number[];
+  selected: number[];
+  onToggle: (num: number) => void;
+}) {
+  const max = Math.max(1, ...counts);
+  return (
+    <svg
+      className={styles.chart}
+      viewBox={`0 0 ${BAR_WIDTH * 45} ${BAR_CHART_HEIGHT + 14}`}
+      role="img"
+      aria-label="번호별 출현 횟수"
+    >
+      {counts.map((count, index) => {
+        const num = index + 1;
+        const height = (count / max) * BAR_CHART_HEIGHT;
+        return (
+          <g key={num} onClick={() => onToggle(num)}>
+            <title>{`${num}번: ${count}회`}</title>
+            <rect
+              className={`${styles.chartBar} ${getBallClass(num)} ${
+                selected.includes(num) ? styles.chartBarActive : ""
+              }`}
+              x={index * BAR_WIDTH + 1}
+              y={BAR_CHART_HEIGHT - height}
+              width={BAR_WIDTH - 2}
+              height={height}
+            />
+            {num % 5 === 0 || num === 1 ? (
+              <text
+                className={styles.chartLabel}
+                x={index * BAR_WIDTH + BAR_WIDTH / 2}
+                y={BAR_CHART_HEIGHT + 12}
+                textAnchor="middle"
+              >
+                {num}
+              </text>
+            ) : null}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+function TrendLines({ trends }: { trends: NumberTrend[] }) {
+  const points = trends.flatMap((trend) => trend.points);
+  if (points.length === 0) {
+    return (
+      <div className={styles.cardHint}>
+        선택한 구간보다 회차가 적어 추세를 그릴 수 없습니다.
+      </div>
+    );
+  }
+  const minDraw = Math.min(...points.map((point) => point.drwNo));
+  const maxDraw = Math.max(...points.map((point) => point.drwNo));
+  const maxCount = Math.max(1, ...points.map((point) => point.count));
+  const x = (drwNo: number) =>
+    ((drwNo - minDraw) / Math.max(1, maxDraw - minDraw)) * TREND_WIDTH;
+  const y = (count: number) =>
+    TREND_HEIGHT - (count / maxCount) * (TREND_HEIGHT - 8);
+
+  return (
+    <svg
+      className={styles.chart}
+      viewBox={`0 0 ${TREND_WIDTH} ${TREND_HEIGHT + 14}`}
+      role="img"
+      aria-label="선택 번호의 구간별 출현 추세"
+    >
+      <line
+        className={styles.chartAxis}
+        x1={0}
+        x2={TREND_WIDTH}
+        y1={TREND_HEIGHT}
+        y2={TREND_HEIGHT}
+      />
+      {trends.map((trend, index) => (
+        <polyline
+          key={trend.num}
+          fill="none"
+          stroke={LINE_COLORS[index % LINE_COLORS.length]}
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+          points={trend.points
+            .map((point) => `${x(point.drwNo)},${y(point.count)}`)
+            .join(" ")}
+        />
+      ))}
+      <text className={styles.chartLabel} x={0} y={TREND_HEIGHT + 12}>
+        {minDraw}회
+      </text>
+      <text
+        className={styles.chartLabel}
+        x={TREND_WIDTH}
+        y={TREND_HEIGHT + 12}
+        textAnchor="end"
+      >
+        {maxDraw}회
+      </text>
+      <text className={styles.chartLabel} x={2} y={10}>
+        최대 {maxCount}
+      </text>
+    </svg>
+  );
+}
+
+export default function StatsDashboard({ ranking, live }: StatsDashboardProps) {
+  const [selected, setSelected] = useState<number[]>(() =>
+    ranking.slice(0, 1).map((item) => item.num),
+  );
+  const [rolling, setRolling] = useState(52);
+  const [trendData, setTrendData] = useState<TrendsResponse | null>(null);
+  const [frameIndex, setFrameIndex] = useState<number | null>(null);
+
+  const counts = useMemo(() => {
+    const byNum = Array.from({ length: 45 }, () => 0);
+    for (const item of ranking) {
+      byNum[item.num - 1] = item.count;
+    }
+    return byNum;
+  }, [ranking]);
+
+  // Trends for every number come in one request per rolling size, so toggling
+  // numbers only filters what is already loaded.
+  useEffect(() => {
+    if (!live) {
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      try {
+        const params = new URLSearchParams({
+          nums: ALL_NUMBERS.join(","),
+          rolling: String(rolling),
+        });
+        const response = await fetch(`/api/lotto/trends?${params}`);
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        const data = (await response.json()) as TrendsResponse;
+        if (!cancelled) {
+          setTrendData(data);
+        }
+      } catch (error) {
+        console.warn("Failed to load trends", error);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [live, rolling]);
+
+  const selectedTrends = useMemo(
+    () =>
+      selected.flatMap(
+        (num) => trendData?.trends.filter((trend) => trend.num === num) ?? [],
+      ),
+    [selected, trendData],
+  );
+
+  const frames = trendData?.frames ?? [];
+  useEffect(() => {
+    if (frameIndex === null || frameIndex >= frames.length - 1) {
+      return;
+    }
+    const timer = window.setTimeout(
+      () => setFrameIndex(frameIndex + 1),
+      FRAME_MS,
+    );
+    return () => window.clearTimeout(timer);
+  }, [frameIndex, frames.length]);
+
+  const toggle = (num: number) => {
+    setSelected((current) => {
+      if (current.includes(num)) {
+        return current.filter((item) => item !== num);
+      }
+      return current.length >= MAX_SELECTED
+        ? [...current.slice(1), num]
+        : [...current, num];
+    });
+  };
+
+  const frame = frameIndex !== null ? frames[frameIndex] : undefined;
+
+  return (
+    <section className={styles.card}>
+      <div className={styles.cardHeader}>
+        <div className={styles.cardTitle}>통계 차트</div>
+        <div className={styles.cardHint}>막대를 눌러 추세 번호 선택</div>
+      </div>
+      <div className={styles.chartCaption}>
+        {frame ? `${frame.drwNo}회까지 누적 출현` : "번호별 출현 횟수"}
+      </div>
+      <FrequencyBars
+        counts={frame?.counts ?? counts}
+        selected={selected}
+        onToggle={toggle}
+      />
+      {live ? (
+        <>
+          <div className={styles.slipControls}>
+            <button
+              type="button"
+              className={styles.copyButton}
+              onClick={() => setFrameIndex(0)}
+              disabled={frames.length === 0}
+            >
+              누적 재생
+            </button>
+            {frame ? (
+              <button
+                type="button"
+                className={styles.copyButton}
+                onClick={() => setFrameIndex(null)}
+              >
+                현재로
+              </button>
+            ) : null}
+          </div>
+          <div className={styles.chartCaption}>
+            최근 {rolling}회 구간 출현 추세
+          </div>
+          <div className={styles.algoButtons}>
+            {ROLLING_OPTIONS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                className={`${styles.toggle} ${
+                  rolling === option ? styles.toggleActive : ""
+                }`}
+                onClick={() => setRolling(option)}
+              >
+                {option}회
+              </button>
+            ))}
+          </div>
+          <div className={styles.numbers}>
+            {selected.map((num, index) => (
+              <button
+                key={num}
+                type="button"
+                className={`${styles.ball} ${styles.ballSmall} ${getBallClass(num)} ${styles.chartLegend}`}
+                style={{
+                  outlineColor: LINE_COLORS[index % LINE_COLORS.length],
+                }}
+                onClick={() => toggle(num)}
+                title="선택 해제"
+              >
+                {num}
+              </button>
+            ))}
+          </div>
+          {trendData && selected.length > 0 ? (
+            <TrendLines trends={selectedTrends} />
+          ) : null}
+        </>
+      ) : (
+        <div className={styles.cardHint}>
+          추세와 누적 재생은 최신 데이터를 불러온 뒤 사용할 수 있습니다.
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { ticketLabel } from "@/lib/lotto/slip";
+import styles from "../page.module.css";
+import CheckResultView from "./CheckResultView";
+import { checkTickets, type CheckResponse } from "./checkTickets";
+
+type CheckState = "idle" | "checking" | "done" | "error";
+
+type TicketCheckPanelProps = {
+  tickets: number[][];
+  latestDraw: number | null;
+};
+
+export default function TicketCheckPanel({
+  tickets,
+  latestDraw,
+}: TicketCheckPanelProps) {
+  const [drawInput, setDrawInput] = useState("");
+  const [status, setStatus] = useState<CheckState>("idle");
+  const [message, setMessage] = useState<string | null>(null);
+  const [result, setResult] = useState<CheckResponse | null>(null);
+
+  const check = useCallback(async () => {
+    const trimmed = drawInput.trim();
+    if (trimmed && !/^\d+$/.test(trimmed)) {
+      setStatus("error");
+      setMessage("회차는 숫자로 입력해 주세요.");
+      return;
+    }
+    setStatus("checking");
+    setMessage(null);
+    try {
+      setResult(
+        await checkTickets(tickets, trimmed ? Number(trimmed) : "latest"),
+      );
+      setStatus("done");
+    } catch (error) {
+      console.warn("Ticket check failed", error);
+      setResult(null);
+      setStatus("error");
+      setMessage("당첨 확인에 실패했습니다. 회차를 확인해 주세요.");
+    }
+  }, [drawInput, tickets]);
+
+  return (
+    <div className={styles.checkPanel}>
+      <div className={styles.checkControls}>
+        <input
+          className={styles.input}
+          inputMode="numeric"
+          placeholder={latestDraw ? `최신 ${latestDraw}회` : "최신 회차"}
+          value={drawInput}
+          onChange={(event) => setDrawInput(event.target.value)}
+        />
+        <button
+          type="button"
+          className={styles.button}
+          onClick={check}
+          disabled={status === "checking"}
+        >
+          {status === "checking" ? "확인 중…" : "당첨 확인"}
+        </button>
+      </div>
+      {message ? <p className={styles.qrMessage}>{message}</p> : null}
+      {status === "done" && result ? (
+        <CheckResultView
+          result={result}
+          labels={
+            tickets.length > 1
+              ? tickets.map((_, index) => ticketLabel(index, tickets.length))
+              : undefined
+          }
+        />
+      ) : null}
+    </div>
+  );
+}
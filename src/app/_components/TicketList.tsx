@@ -0,0 +1,100 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import {
+  featurePercentiles,
+  type FeatureHistograms,
+} from "@/lib/lotto/features";
+import { ticketLabel } from "@/lib/lotto/slip";
+import styles from "../page.module.css";
+import { getBallClass } from "./ballClass";
+import { FEATURE_LABELS } from "./featureLabels";
+
+type TicketListProps = {
+  tickets: number[][];
+  /** Past-draw feature histograms; adds a percentile line per ticket. */
+  histograms?: FeatureHistograms | null;
+};
+
+function formatTicket(ticket: number[]) {
+  return ticket.join(", ");
+}
+
+function describeFeatures(ticket: number[], histograms: FeatureHistograms) {
+  return featurePercentiles(ticket, histograms)
+    .map(
+      (item) =>
+        `${FEATURE_LABELS[item.feature]} ${item.value}${
+          item.percentile === null ? "" : ` (${Math.round(item.percentile)}%)`
+        }`,
+    )
+    .join(" · ");
+}
+
+export default function TicketList({ tickets, histograms }: TicketListProps) {
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const copy = useCallback(async (key: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(key);
+    } catch (error) {
+      console.warn("Clipboard write failed", error);
+      setCopied(null);
+    }
+  }, []);
+
+  return (
+    <div className={styles.ticketList}>
+      {tickets.map((ticket, index) => {
+        const label = ticketLabel(index, tickets.length);
+        return (
+          <div key={`pick-${label}`} className={styles.ticketRow}>
+            <span className={styles.ticketLabel}>{label}</span>
+            <div className={styles.numbers}>
+              {ticket.map((num) => (
+                <span
+                  key={`pick-${label}-${num}`}
+                  className={`${styles.ball} ${getBallClass(num)}`}
+                >
+                  {num}
+                </span>
+              ))}
+            </div>
+            <button
+              type="button"
+              className={styles.copyButton}
+              onClick={() => copy(label, formatTicket(ticket))}
+            >
+              {copied === label ? "복사됨" : "복사"}
+            </button>
+            {histograms ? (
+              <div className={styles.ticketFeatures}>
+                {describeFeatures(ticket, histograms)}
+              </div>
+            ) : null}
+          </div>
+        );
+      })}
+      {tickets.length > 1 ? (
+        <button
+          type="button"
+          className={styles.copyButton}
+          onClick={() =>
+            copy(
+              "all",
+              tickets
+                .map(
+                  (ticket, index) =>
+                    `${ticketLabel(index, tickets.length)}: ${formatTicket(ticket)}`,
+                )
+                .join("\n"),
+            )
+          }
+        >
+          {copied === "all" ? "전체 복사됨" : "전체 복사"}
+        </button>
+      ) : null}
+    </div>
+  );
+}
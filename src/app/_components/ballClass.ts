@@ -0,0 +1,17 @@
+import styles from "../page.module.css";
+
+export function getBallClass(num: number) {
+  if (num <= 10) {
+    return styles.c1;
+  }
+  if (num <= 20) {
+    return styles.c2;
+  }
+  if (num <= 30) {
+    return styles.c3;
+  }
+  if (num <= 40) {
+    return styles.c4;
+  }
+  return styles.c5;
+}
@@ -0,0 +1,93 @@
+import { checkTicket } from "@/lib/lotto/prize";
+import type { SavedTicketResult } from "@/lib/lotto/ticketHistory";
+import type { Draw } from "@/lib/lotto/types";
+import { formatWon } from "./formatWon";
+
+export type TicketResult = SavedTicketResult;
+
+export type CheckResponse = {
+  drawNo: number;
+  drawDate: string;
+  numbers: number[];
+  bonus: number;
+  results: TicketResult[];
+};
+
+export class CheckRequestError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "CheckRequestError";
+    this.status = status;
+  }
+}
+
+/**
+ * Grades tickets against the draws bundled in the (service-worker cached)
+ * /api/lotto response, for when the check endpoint is unreachable.
+ */
+async function checkTicketsOffline(
+  tickets: number[][],
+  drawNo: number | "latest",
+): Promise<CheckResponse> {
+  const response = await fetch("/api/lotto");
+  const data = (await response.json()) as {
+    latestDraw: number;
+    recentDraws?: Draw[];
+  };
+  const target = drawNo === "latest" ? data.latestDraw : drawNo;
+  const draw = data.recentDraws?.find((item) => item.drwNo === target);
+  if (!draw) {
+    throw new CheckRequestError(404, `draw ${target} is not cached offline`);
+  }
+  return {
+    drawNo: draw.drwNo,
+    drawDate: draw.drwNoDate,
+    numbers: draw.numbers,
+    bonus: draw.bonus,
+    results: tickets.map((ticket) =>
+      checkTicket(
+        [...ticket].sort((a, b) => a - b),
+        draw,
+      ),
+    ),
+  };
+}
+
+export async function checkTickets(
+  tickets: number[][],
+  drawNo: number | "latest",
+): Promise<CheckResponse> {
+  let response: Response;
+  try {
+    response = await fetch("/api/lotto/check", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ tickets, drawNo }),
+    });
+  } catch (error) {
+    // fetch only rejects on network failure, i.e. when offline.
+    console.warn("Check endpoint unreachable, grading offline", error);
+    return checkTicketsOffline(tickets, drawNo);
+  }
+  const data = await response.json();
+  if (!response.ok) {
+    throw new CheckRequestError(
+      response.status,
+      data.error ?? `HTTP ${response.status}`,
+    );
+  }
+  return data as CheckResponse;
+}
+
+/** "낙첨 (2개 일치)", "4등 · 50,000원", or "약 …원" for nominal estimates. */
+export function formatRank(result: TicketResult) {
+  if (result.rank === null) {
+    return `낙첨 (${result.matchCount}개 일치)`;
+  }
+  if (result.payout === undefined) {
+    return `${result.rank}등`;
+  }
+  return `${result.rank}등 · ${result.payoutExact ? "" : "약 "}${formatWon(result.payout)}`;
+}
@@ -0,0 +1,10 @@
+import type { ScalarFeature } from "@/lib/lotto/features";
+
+export const FEATURE_LABELS: Record<ScalarFeature, string> = {
+  sum: "합계",
+  oddCount: "홀수",
+  highCount: "고번호",
+  consecutivePairs: "연번",
+  lastDigitSpread: "끝수 종류",
+  acValue: "AC",
+};
@@ -0,0 +1,4 @@
+/** "1,234,000원" */
+export function formatWon(value: number) {
+  return `${value.toLocaleString("ko-KR")}원`;
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { NOMINAL_PRIZES, TICKET_PRICE } from "@/lib/lotto/prize";
+import type { HistoryEntry } from "@/lib/lotto/ticketHistory";
+import type { TicketResult } from "./checkTickets";
+
+const STORAGE_KEY = "lotto.history.v1";
+const EMPTY: HistoryEntry[] = [];
+
+let entries: HistoryEntry[] | null = null;
+const listeners = new Set<() => void>();
+
+function read(): HistoryEntry[] {
+  if (entries) {
+    return entries;
+  }
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as unknown) : [];
+    entries = Array.isArray(parsed) ? (parsed as HistoryEntry[]) : [];
+  } catch (error) {
+    console.warn("Failed to read ticket history", error);
+    entries = [];
+  }
+  return entries;
+}
+
+function write(next: HistoryEntry[]) {
+  entries = next;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn("Failed to save ticket history", error);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) {
+      entries = null;
+      listener();
+    }
+  };
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+export function addHistoryEntry(entry: Omit<HistoryEntry, "id" | "createdAt">) {
+  const createdAt = new Date().toISOString();
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  write([{ ...entry, id, createdAt }, ...read()]);
+}
+
+export function hasHistoryEntry(targetDraw: number, tickets: number[][]) {
+  const key = JSON.stringify(tickets);
+  return read().some(
+    (entry) =>
+      entry.targetDraw === targetDraw && JSON.stringify(entry.tickets) === key,
+  );
+}
+
+export function updateHistoryEntry(
+  id: string,
+  patch: Partial<Omit<HistoryEntry, "id">>,
+) {
+  write(
+    read().map((entry) => (entry.id === id ? { ...entry, ...patch } : entry)),
+  );
+}
+
+export function removeHistoryEntry(id: string) {
+  write(read().filter((entry) => entry.id !== id));
+}
+
+/** Reported payouts where available, NOMINAL_PRIZES for older results. */
+export function estimateWinnings(results: TicketResult[]) {
+  return results.reduce(
+    (sum, item) =>
+      sum + (item.payout ?? (item.rank ? NOMINAL_PRIZES[item.rank] : 0)),
+    0,
+  );
+}
+
+export function entryCost(entry: HistoryEntry) {
+  return entry.tickets.length * TICKET_PRICE;
+}
+
+export function useTicketHistory() {
+  return useSyncExternalStore(subscribe, read, () => EMPTY);
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { checkAdmin } from "@/lib/lotto/adminAuth";
+import { importDraws } from "@/lib/lotto/drawCache";
+import { expectedLatestDraw } from "@/lib/lotto/drawCalendar";
+import { parseDrawsCsv, parseDrawsJson } from "@/lib/lotto/drawRecords";
+import type { Draw } from "@/lib/lotto/types";
+
+/**
+ * Seeds the draw cache from a CSV or JSON file in the export format, so a
+ * fresh instance can start without scraping every draw upstream.
+ * Requires `Authorization: Bearer $LOTTO_ADMIN_TOKEN`.
+ */
+export async function POST(request: Request) {
+  const denied = checkAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  const text = await request.text();
+  const contentType = request.headers.get("content-type") ?? "";
+  const isJson =
+    contentType.includes("json") ||
+    (!contentType.includes("csv") && /^\s*[[{]/.test(text));
+
+  let draws: Draw[];
+  try {
+    draws = isJson ? parseDrawsJson(JSON.parse(text)) : parseDrawsCsv(text);
+  } catch (error) {
+    const name = (error as { name?: string }).name;
+    if (name === "DrawImportError" || name === "SyntaxError") {
+      return NextResponse.json(
+        { error: (error as Error).message },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+  if (draws.length === 0) {
+    return NextResponse.json({ error: "no draws in file" }, { status: 400 });
+  }
+  // Guards against typos like a date in the drwNo column, which would
+  // otherwise size the cache's missing-draw list.
+  const latest = expectedLatestDraw(Date.now());
+  const future = draws.find((draw) => draw.drwNo > latest);
+  if (future) {
+    return NextResponse.json(
+      {
+        error: `drwNo ${future.drwNo} is after the latest draw (${latest})`,
+      },
+      { status: 400 },
+    );
+  }
+
+  return NextResponse.json(await importDraws(draws));
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { runBacktest } from "@/lib/lotto/backtest";
+import { getReadyCache } from "@/lib/lotto/drawCache";
+import { parseSeed, randomSeed } from "@/lib/lotto/rng";
+import {
+  parseWindowQuery,
+  selectWindow,
+  type DrawWindowQuery,
+} from "@/lib/lotto/window";
+
+const DEFAULT_LAST_N = 52;
+const MAX_TARGET_DRAWS = 520;
+const DEFAULT_TICKETS = 5;
+const MAX_TICKETS = 20;
+
+function badRequest(message: string) {
+  return NextResponse.json({ error: message }, { status: 400 });
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const includeBonus = url.searchParams.get("includeBonus") === "1";
+
+  const rawTickets = url.searchParams.get("tickets");
+  const ticketsPerDraw = rawTickets ? Number(rawTickets) : DEFAULT_TICKETS;
+  if (
+    !Number.isInteger(ticketsPerDraw) ||
+    ticketsPerDraw < 1 ||
+    ticketsPerDraw > MAX_TICKETS
+  ) {
+    return badRequest(`tickets must be an integer from 1 to ${MAX_TICKETS}`);
+  }
+
+  const rawSeed = url.searchParams.get("seed");
+  const seed = rawSeed ? parseSeed(rawSeed) : randomSeed();
+  if (seed === null) {
+    return badRequest("seed must be an unsigned 32-bit integer");
+  }
+
+  let windowQuery: DrawWindowQuery;
+  try {
+    windowQuery = parseWindowQuery(url.searchParams);
+  } catch (error) {
+    if ((error as { name?: string }).name === "WindowParamError") {
+      return badRequest((error as Error).message);
+    }
+    throw error;
+  }
+  const hasRange = Object.values(windowQuery).some(
+    (value) => value !== undefined,
+  );
+  if (!hasRange) {
+    windowQuery.lastN = DEFAULT_LAST_N;
+  }
+
+  const cache = await getReadyCache();
+  const { draws: targets, window } = selectWindow(
+    cache.draws.values(),
+    windowQuery,
+  );
+  if (targets.length > MAX_TARGET_DRAWS) {
+    return badRequest(
+      `backtest window covers ${targets.length} draws; the limit is ${MAX_TARGET_DRAWS}`,
+    );
+  }
+
+  const report = runBacktest(cache.draws.values(), {
+    targets,
+    ticketsPerDraw,
+    includeBonus,
+    seed,
+  });
+
+  return NextResponse.json({
+    latestDraw: cache.latest,
+    window,
+    ...report,
+  });
+}
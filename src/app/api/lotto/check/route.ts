@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { getReadyCache } from "@/lib/lotto/drawCache";
+import { checkTicket, normalizeTicket } from "@/lib/lotto/prize";
+
+const MAX_TICKETS = 50;
+
+type CheckRequest = {
+  tickets?: unknown;
+  drawNo?: unknown;
+};
+
+function badRequest(message: string) {
+  return NextResponse.json({ error: message }, { status: 400 });
+}
+
+export async function POST(request: Request) {
+  let body: CheckRequest;
+  try {
+    body = (await request.json()) as CheckRequest;
+  } catch {
+    return badRequest("request body must be JSON");
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return badRequest("request body must be a JSON object");
+  }
+
+  if (!Array.isArray(body.tickets) || body.tickets.length === 0) {
+    return badRequest("tickets must be a non-empty array");
+  }
+  if (body.tickets.length > MAX_TICKETS) {
+    return badRequest(`at most ${MAX_TICKETS} tickets can be checked at once`);
+  }
+
+  let tickets: number[][];
+  try {
+    tickets = body.tickets.map(normalizeTicket);
+  } catch (error) {
+    if ((error as { name?: string }).name === "TicketError") {
+      return badRequest((error as Error).message);
+    }
+    throw error;
+  }
+
+  const requested = body.drawNo ?? "latest";
+  if (
+    requested !== "latest" &&
+    !(Number.isInteger(requested) && (requested as number) > 0)
+  ) {
+    return badRequest('drawNo must be a positive integer or "latest"');
+  }
+
+  const cache = await getReadyCache();
+  const drawNo = requested === "latest" ? cache.latest : (requested as number);
+  const draw = cache.draws.get(drawNo);
+  if (!draw) {
+    return NextResponse.json(
+      { error: `draw ${drawNo} is not available` },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json({
+    drawNo: draw.drwNo,
+    drawDate: draw.drwNoDate,
+    numbers: draw.numbers,
+    bonus: draw.bonus,
+    results: tickets.map((ticket) => checkTicket(ticket, draw)),
+  });
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { getReadyCache } from "@/lib/lotto/drawCache";
+import { extractFeatures } from "@/lib/lotto/features";
+import { cachedJson } from "@/lib/lotto/httpCache";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ drwNo: string }> },
+) {
+  const { drwNo: rawDrwNo } = await params;
+  const drwNo = Number(rawDrwNo);
+  if (!/^\d+$/.test(rawDrwNo) || drwNo < 1) {
+    return NextResponse.json(
+      { error: "drwNo must be a positive integer" },
+      { status: 400 },
+    );
+  }
+
+  const cache = await getReadyCache();
+  const draw = cache.draws.get(drwNo);
+  if (!draw) {
+    return NextResponse.json(
+      {
+        error: `draw ${drwNo} not found`,
+        latestDraw: cache.latest,
+        missing: cache.missing.includes(drwNo),
+      },
+      { status: 404 },
+    );
+  }
+
+  return cachedJson(request, {
+    ...draw,
+    latestDraw: cache.latest,
+    previousDraw: cache.draws.has(drwNo - 1) ? drwNo - 1 : null,
+    nextDraw: cache.draws.has(drwNo + 1) ? drwNo + 1 : null,
+    features: extractFeatures(draw.numbers),
+  });
+}
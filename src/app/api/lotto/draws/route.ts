@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { getReadyCache } from "@/lib/lotto/drawCache";
+import { cachedJson } from "@/lib/lotto/httpCache";
+import {
+  parseWindowQuery,
+  selectWindow,
+  type DrawWindowQuery,
+} from "@/lib/lotto/window";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+function badRequest(message: string) {
+  return NextResponse.json({ error: message }, { status: 400 });
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const includeBonus = url.searchParams.get("includeBonus") === "1";
+
+  const sort = url.searchParams.get("sort") ?? "desc";
+  if (sort !== "asc" && sort !== "desc") {
+    return badRequest("sort must be asc or desc");
+  }
+
+  const rawPage = url.searchParams.get("page");
+  const page = rawPage ? Number(rawPage) : 1;
+  if (!Number.isInteger(page) || page < 1) {
+    return badRequest("page must be a positive integer");
+  }
+  const rawPageSize = url.searchParams.get("pageSize");
+  const pageSize = rawPageSize ? Number(rawPageSize) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return badRequest(`pageSize must be an integer from 1 to ${MAX_PAGE_SIZE}`);
+  }
+
+  const contains = (url.searchParams.get("contains") ?? "")
+    .split(",")
+    .filter((part) => part.trim() !== "")
+    .map(Number);
+  if (
+    contains.length > 7 ||
+    contains.some((num) => !Number.isInteger(num) || num < 1 || num > 45)
+  ) {
+    return badRequest("contains must list up to 7 numbers from 1 to 45");
+  }
+
+  let windowQuery: DrawWindowQuery;
+  try {
+    windowQuery = parseWindowQuery(url.searchParams);
+  } catch (error) {
+    if ((error as { name?: string }).name === "WindowParamError") {
+      return badRequest((error as Error).message);
+    }
+    throw error;
+  }
+
+  const cache = await getReadyCache();
+  const { draws } = selectWindow(cache.draws.values(), windowQuery);
+  const matching = draws.filter((draw) => {
+    const hits = includeBonus ? [...draw.numbers, draw.bonus] : draw.numbers;
+    return contains.every((num) => hits.includes(num));
+  });
+  if (sort === "desc") {
+    matching.reverse();
+  }
+
+  const total = matching.length;
+  return cachedJson(request, {
+    latestDraw: cache.latest,
+    total,
+    page,
+    pageSize,
+    pageCount: Math.ceil(total / pageSize),
+    sort,
+    contains,
+    includeBonus,
+    items: matching.slice((page - 1) * pageSize, page * pageSize),
+  });
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { getReadyCache } from "@/lib/lotto/drawCache";
+import { cachedJson } from "@/lib/lotto/httpCache";
+import { expectedValues, jackpotHistory } from "@/lib/lotto/jackpot";
+import { NOMINAL_PRIZES, TICKET_PRICE } from "@/lib/lotto/prize";
+import {
+  parseWindowQuery,
+  selectWindow,
+  type DrawWindowQuery,
+} from "@/lib/lotto/window";
+
+/**
+ * Expected value of a single ticket at each draw, from the recorded 1등 pool
+ * and the fixed or nominal amounts for the other ranks.
+ */
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  let windowQuery: DrawWindowQuery;
+  try {
+    windowQuery = parseWindowQuery(url.searchParams);
+  } catch (error) {
+    if ((error as { name?: string }).name === "WindowParamError") {
+      return NextResponse.json(
+        { error: (error as Error).message },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+
+  const cache = await getReadyCache();
+  const { draws, window } = selectWindow(cache.draws.values(), windowQuery);
+  const points = expectedValues(draws);
+  const jackpots = jackpotHistory(draws);
+  const average =
+    points.length > 0
+      ? points.reduce((sum, point) => sum + point.expectedValue, 0) /
+        points.length
+      : null;
+
+  return cachedJson(request, {
+    latestDraw: cache.latest,
+    window,
+    ticketPrice: TICKET_PRICE,
+    nominalPrizes: NOMINAL_PRIZES,
+    withoutPrizeData: draws.length - jackpots.length,
+    averageExpectedValue: average,
+    expectedValues: points,
+  });
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { attachment, toCsv } from "@/lib/lotto/csv";
+import { getReadyCache } from "@/lib/lotto/drawCache";
+import { drawsToRows } from "@/lib/lotto/drawRecords";
+import {
+  parseWindowQuery,
+  selectWindow,
+  type DrawWindowQuery,
+} from "@/lib/lotto/window";
+
+function badRequest(message: string) {
+  return NextResponse.json({ error: message }, { status: 400 });
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const format = url.searchParams.get("format") ?? "csv";
+  if (format !== "csv" && format !== "json") {
+    return badRequest("format must be csv or json");
+  }
+
+  let windowQuery: DrawWindowQuery;
+  try {
+    windowQuery = parseWindowQuery(url.searchParams);
+  } catch (error) {
+    if ((error as { name?: string }).name === "WindowParamError") {
+      return badRequest((error as Error).message);
+    }
+    throw error;
+  }
+
+  const cache = await getReadyCache();
+  const { draws, window } = selectWindow(cache.draws.values(), windowQuery);
+  const filename = `lotto-draws-${window.firstDraw ?? 0}-${window.lastDraw ?? 0}.${format}`;
+
+  if (format === "json") {
+    return attachment(
+      JSON.stringify(
+        {
+          exportedAt: new Date().toISOString(),
+          latestDraw: cache.latest,
+          window,
+          draws,
+        },
+        null,
+        2,
+      ),
+      filename,
+      "application/json",
+    );
+  }
+  return attachment(toCsv(drawsToRows(draws)), filename, "text/csv");
+}
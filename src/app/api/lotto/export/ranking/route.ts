@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { attachment, toCsv } from "@/lib/lotto/csv";
+import { getReadyCache } from "@/lib/lotto/drawCache";
+import { buildRanking } from "@/lib/lotto/ranking";
+import {
+  parseWindowQuery,
+  selectWindow,
+  type DrawWindowQuery,
+} from "@/lib/lotto/window";
+
+function badRequest(message: string) {
+  return NextResponse.json({ error: message }, { status: 400 });
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const includeBonus = url.searchParams.get("includeBonus") === "1";
+  const format = url.searchParams.get("format") ?? "csv";
+  if (format !== "csv" && format !== "json") {
+    return badRequest("format must be csv or json");
+  }
+
+  let windowQuery: DrawWindowQuery;
+  try {
+    windowQuery = parseWindowQuery(url.searchParams);
+  } catch (error) {
+    if ((error as { name?: string }).name === "WindowParamError") {
+      return badRequest((error as Error).message);
+    }
+    throw error;
+  }
+
+  const cache = await getReadyCache();
+  const { draws, window } = selectWindow(cache.draws.values(), windowQuery);
+  const { ranking } = buildRanking(draws, includeBonus);
+  const filename = `lotto-ranking-${window.lastDraw ?? 0}.${format}`;
+
+  if (format === "json") {
+    return attachment(
+      JSON.stringify(
+        {
+          exportedAt: new Date().toISOString(),
+          includeBonus,
+          window,
+          ranking: ranking.map((item, index) => ({ rank: index + 1, ...item })),
+        },
+        null,
+        2,
+      ),
+      filename,
+      "application/json",
+    );
+  }
+  return attachment(
+    toCsv([
+      ["rank", "num", "count"],
+      ...ranking.map((item, index) => [index + 1, item.num, item.count]),
+    ]),
+    filename,
+    "text/csv",
+  );
+}
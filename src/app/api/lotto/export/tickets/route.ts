@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import { attachment, toCsv } from "@/lib/lotto/csv";
+import type { HistoryEntry } from "@/lib/lotto/ticketHistory";
+
+const MAX_ENTRIES = 5000;
+
+type ExportRequest = {
+  entries?: unknown;
+  format?: unknown;
+};
+
+function badRequest(message: string) {
+  return NextResponse.json({ error: message }, { status: 400 });
+}
+
+function isEntry(value: unknown): value is HistoryEntry {
+  const entry = value as Partial<HistoryEntry> | null;
+  return (
+    typeof entry?.id === "string" &&
+    Number.isInteger(entry.targetDraw) &&
+    Array.isArray(entry.tickets) &&
+    entry.tickets.every((ticket) => Array.isArray(ticket)) &&
+    (entry.result === undefined ||
+      (typeof entry.result === "object" &&
+        entry.result !== null &&
+        Array.isArray(entry.result.results)))
+  );
+}
+
+/**
+ * Saved tickets live in the browser, so the client posts them here and gets
+ * back a file download in the requested format.
+ */
+export async function POST(request: Request) {
+  let body: ExportRequest;
+  try {
+    body = (await request.json()) as ExportRequest;
+  } catch {
+    return badRequest("request body must be JSON");
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return badRequest("request body must be a JSON object");
+  }
+  const format = body.format ?? "csv";
+  if (format !== "csv" && format !== "json") {
+    return badRequest("format must be csv or json");
+  }
+  if (
+    !Array.isArray(body.entries) ||
+    body.entries.length > MAX_ENTRIES ||
+    !body.entries.every(isEntry)
+  ) {
+    return badRequest(
+      `entries must be an array of up to ${MAX_ENTRIES} saved ticket entries`,
+    );
+  }
+  const entries = body.entries;
+  const filename = `lotto-tickets-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  if (format === "json") {
+    return attachment(
+      JSON.stringify(
+        { exportedAt: new Date().toISOString(), entries },
+        null,
+        2,
+      ),
+      filename,
+      "application/json",
+    );
+  }
+  return attachment(
+    toCsv([
+      [
+        "id",
+        "source",
+        "algorithm",
+        "seed",
+        "targetDraw",
+        "createdAt",
+        "game",
+        "n1",
+        "n2",
+        "n3",
+        "n4",
+        "n5",
+        "n6",
+        "matchCount",
+        "rank",
+      ],
+      ...entries.flatMap((entry) =>
+        entry.tickets.map((ticket, index) => {
+          const result = entry.result?.results[index];
+          return [
+            entry.id,
+            entry.source,
+            entry.algorithm,
+            entry.seed,
+            entry.targetDraw,
+            entry.createdAt,
+            index + 1,
+            ...ticket,
+            result?.matchCount,
+            result?.rank,
+          ];
+        }),
+      ),
+    ]),
+    filename,
+    "text/csv",
+  );
+}
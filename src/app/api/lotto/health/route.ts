@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { cacheHealth } from "@/lib/lotto/drawCache";
+
+/**
+ * Data-integrity report: gaps, quarantined draws, date anomalies, cache age
+ * and upstream block status. Never triggers an upstream fetch; answers 503
+ * while no draws are cached at all.
+ */
+export async function GET() {
+  const health = await cacheHealth();
+  return NextResponse.json(health, {
+    status: health.status === "empty" ? 503 : 200,
+    headers: { "Cache-Control": "no-store" },
+  });
+}
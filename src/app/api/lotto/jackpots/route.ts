@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { getReadyCache } from "@/lib/lotto/drawCache";
+import { cachedJson } from "@/lib/lotto/httpCache";
+import { jackpotHistory } from "@/lib/lotto/jackpot";
+import {
+  parseWindowQuery,
+  selectWindow,
+  type DrawWindowQuery,
+} from "@/lib/lotto/window";
+
+/** First-prize amounts, winner counts and rollovers per draw. */
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  let windowQuery: DrawWindowQuery;
+  try {
+    windowQuery = parseWindowQuery(url.searchParams);
+  } catch (error) {
+    if ((error as { name?: string }).name === "WindowParamError") {
+      return NextResponse.json(
+        { error: (error as Error).message },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+
+  const cache = await getReadyCache();
+  const { draws, window } = selectWindow(cache.draws.values(), windowQuery);
+  const jackpots = jackpotHistory(draws);
+  const largest = jackpots.reduce<(typeof jackpots)[number] | null>(
+    (best, point) =>
+      !best || point.firstPrize > best.firstPrize ? point : best,
+    null,
+  );
+
+  return cachedJson(request, {
+    latestDraw: cache.latest,
+    window,
+    withoutPrizeData: draws.length - jackpots.length,
+    largest,
+    rollovers: jackpots.filter((point) => point.rolledOver).length,
+    jackpots,
+  });
+}
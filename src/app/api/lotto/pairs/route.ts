@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { getReadyCache } from "@/lib/lotto/drawCache";
+import { cachedJson } from "@/lib/lotto/httpCache";
+import { buildPairMatrix, topPairs, topTriples } from "@/lib/lotto/pairs";
+import {
+  parseWindowQuery,
+  selectWindow,
+  type DrawWindowQuery,
+} from "@/lib/lotto/window";
+
+const DEFAULT_TOP = 20;
+const MAX_TOP = 200;
+
+function badRequest(message: string) {
+  return NextResponse.json({ error: message }, { status: 400 });
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const includeBonus = url.searchParams.get("includeBonus") === "1";
+  const includeMatrix = url.searchParams.get("matrix") === "1";
+  const includeTriples = url.searchParams.get("triples") === "1";
+
+  const rawTop = url.searchParams.get("top");
+  const top = rawTop ? Number(rawTop) : DEFAULT_TOP;
+  if (!Number.isInteger(top) || top < 1 || top > MAX_TOP) {
+    return badRequest(`top must be an integer from 1 to ${MAX_TOP}`);
+  }
+
+  let windowQuery: DrawWindowQuery;
+  try {
+    windowQuery = parseWindowQuery(url.searchParams);
+  } catch (error) {
+    if ((error as { name?: string }).name === "WindowParamError") {
+      return badRequest((error as Error).message);
+    }
+    throw error;
+  }
+
+  const cache = await getReadyCache();
+  const { draws, window } = selectWindow(cache.draws.values(), windowQuery);
+  const matrix = buildPairMatrix(draws, includeBonus);
+
+  return cachedJson(request, {
+    latestDraw: cache.latest,
+    includeBonus,
+    window,
+    pairs: topPairs(matrix, draws.length, includeBonus, top),
+    triples: includeTriples ? topTriples(draws, includeBonus, top) : null,
+    matrix: includeMatrix ? matrix : null,
+  });
+}
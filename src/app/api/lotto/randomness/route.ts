@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { getReadyCache } from "@/lib/lotto/drawCache";
+import { cachedJson } from "@/lib/lotto/httpCache";
+import { analyzeRandomness } from "@/lib/lotto/randomness";
+import {
+  parseWindowQuery,
+  selectWindow,
+  type DrawWindowQuery,
+} from "@/lib/lotto/window";
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const includeBonus = url.searchParams.get("includeBonus") === "1";
+  let windowQuery: DrawWindowQuery;
+  try {
+    windowQuery = parseWindowQuery(url.searchParams);
+  } catch (error) {
+    if ((error as { name?: string }).name === "WindowParamError") {
+      return NextResponse.json(
+        { error: (error as Error).message },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+
+  const cache = await getReadyCache();
+  const { draws, window } = selectWindow(cache.draws.values(), windowQuery);
+
+  return cachedJson(request, {
+    latestDraw: cache.latest,
+    window,
+    ...analyzeRandomness(draws, includeBonus),
+  });
+}
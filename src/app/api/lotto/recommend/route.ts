@@ -0,0 +1,193 @@
+import { NextResponse } from "next/server";
+import { ALGORITHMS, isAlgoMode } from "@/lib/lotto/algorithms";
+import {
+  parseConstraints,
+  type PickConstraints,
+} from "@/lib/lotto/constraints";
+import { getReadyCache } from "@/lib/lotto/drawCache";
+import {
+  buildFeatureHistograms,
+  featurePercentiles,
+} from "@/lib/lotto/features";
+import { buildNumberStats } from "@/lib/lotto/gaps";
+import { buildPairMatrix } from "@/lib/lotto/pairs";
+import { buildRanking } from "@/lib/lotto/ranking";
+import { mulberry32, parseSeed, randomSeed } from "@/lib/lotto/rng";
+import { MAX_SLIP_TICKETS, generateSlip, wheelPool } from "@/lib/lotto/slip";
+
+const NAMED_POOLS = ["top6", "next6", "top18"] as const;
+type NamedPool = (typeof NAMED_POOLS)[number];
+
+type RecommendRequest = {
+  mode?: unknown;
+  count?: unknown;
+  seed?: unknown;
+  includeBonus?: unknown;
+  constraints?: unknown;
+  maxShared?: unknown;
+  pool?: unknown;
+};
+
+function badRequest(message: string) {
+  return NextResponse.json({ error: message }, { status: 400 });
+}
+
+export async function POST(request: Request) {
+  let body: RecommendRequest;
+  try {
+    body = (await request.json()) as RecommendRequest;
+  } catch {
+    return badRequest("request body must be JSON");
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return badRequest("request body must be a JSON object");
+  }
+
+  const mode = body.mode ?? "weighted";
+  if (!isAlgoMode(mode)) {
+    return badRequest(
+      `mode must be one of ${Object.keys(ALGORITHMS).join(", ")}`,
+    );
+  }
+
+  const count = body.count ?? 1;
+  if (
+    !Number.isInteger(count) ||
+    (count as number) < 1 ||
+    (count as number) > MAX_SLIP_TICKETS
+  ) {
+    return badRequest(`count must be an integer from 1 to ${MAX_SLIP_TICKETS}`);
+  }
+
+  const maxShared = body.maxShared ?? undefined;
+  if (
+    maxShared !== undefined &&
+    (!Number.isInteger(maxShared) ||
+      (maxShared as number) < 0 ||
+      (maxShared as number) > 5)
+  ) {
+    return badRequest("maxShared must be an integer from 0 to 5");
+  }
+
+  const pool = body.pool ?? undefined;
+  if (
+    pool !== undefined &&
+    !NAMED_POOLS.includes(pool as NamedPool) &&
+    !(
+      Array.isArray(pool) &&
+      pool.every((n) => Number.isInteger(n) && n >= 1 && n <= 45)
+    )
+  ) {
+    return badRequest(
+      `pool must be one of ${NAMED_POOLS.join(", ")} or a list of numbers`,
+    );
+  }
+
+  const seed =
+    body.seed === undefined || body.seed === null
+      ? randomSeed()
+      : parseSeed(String(body.seed));
+  if (seed === null) {
+    return badRequest("seed must be an unsigned 32-bit integer");
+  }
+
+  if (
+    body.includeBonus !== undefined &&
+    typeof body.includeBonus !== "boolean"
+  ) {
+    return badRequest("includeBonus must be a boolean");
+  }
+  const includeBonus = body.includeBonus ?? false;
+
+  let constraints: PickConstraints;
+  try {
+    constraints = parseConstraints(body.constraints);
+  } catch (error) {
+    if ((error as { name?: string }).name === "ConstraintError") {
+      return badRequest((error as Error).message);
+    }
+    throw error;
+  }
+
+  const cache = await getReadyCache();
+  const built = buildRanking(cache.draws.values(), includeBonus);
+  const { ranking, hasData } = built;
+  if (!hasData) {
+    return NextResponse.json(
+      {
+        error: "no draw data available",
+        apiBlockedUntil: cache.breaker.snapshot().openUntil,
+      },
+      { status: 503 },
+    );
+  }
+
+  const rng = mulberry32(seed);
+  const algorithm = ALGORITHMS[mode];
+  const slipOptions = {
+    count: count as number,
+    maxShared: maxShared as number | undefined,
+  };
+  const poolNumbers =
+    typeof pool === "string" ? built[pool as NamedPool] : (pool as number[]);
+  let tickets: number[][];
+  try {
+    tickets = poolNumbers
+      ? wheelPool(poolNumbers, rng, slipOptions)
+      : generateSlip(mode, ranking, rng, {
+          ...slipOptions,
+          constraints,
+          stats: algorithm.usesStats
+            ? buildNumberStats(cache.draws.values(), includeBonus)
+            : undefined,
+          pairs: algorithm.usesPairs
+            ? buildPairMatrix(cache.draws.values(), includeBonus)
+            : undefined,
+        });
+  } catch (error) {
+    if ((error as { name?: string }).name === "SlipError") {
+      return NextResponse.json(
+        { error: (error as Error).message },
+        { status: 422 },
+      );
+    }
+    if ((error as { name?: string }).name === "UnsatisfiableConstraintsError") {
+      return NextResponse.json(
+        {
+          error: "constraints are unsatisfiable",
+          reasons: (error as { reasons: string[] }).reasons,
+        },
+        { status: 422 },
+      );
+    }
+    if (
+      (error as { name?: string }).name === "ConstraintSearchExhaustedError"
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "no ticket found within the search budget; relax the constraints",
+          reasons: (error as { reasons: string[] }).reasons,
+        },
+        { status: 422 },
+      );
+    }
+    throw error;
+  }
+
+  const histograms = buildFeatureHistograms(cache.draws.values());
+  return NextResponse.json({
+    mode: poolNumbers ? "wheel" : mode,
+    label: poolNumbers ? "번호 풀 분산" : algorithm.label,
+    count,
+    maxShared: maxShared ?? null,
+    pool: poolNumbers ?? null,
+    seed,
+    includeBonus,
+    constraints: !poolNumbers && algorithm.usesConstraints ? constraints : null,
+    latestDraw: cache.latest,
+    totalDraws: cache.draws.size,
+    tickets,
+    features: tickets.map((ticket) => featurePercentiles(ticket, histograms)),
+  });
+}
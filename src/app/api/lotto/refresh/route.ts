@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { checkAdmin } from "@/lib/lotto/adminAuth";
+import { refreshNow, upstreamStatus } from "@/lib/lotto/drawCache";
+
+/**
+ * Forces an upstream refresh without waiting for the schedule, e.g. right
+ * after a draw is published. Requires `Authorization: Bearer
+ * $LOTTO_ADMIN_TOKEN`; answers 503 while the circuit breaker is open.
+ */
+export async function POST(request: Request) {
+  const denied = checkAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  const cache = await refreshNow();
+  const upstream = upstreamStatus(cache);
+  if (upstream.breaker.state === "open") {
+    return NextResponse.json(
+      {
+        error: "upstream is blocking requests; try again later",
+        apiBlockedUntil: upstream.breaker.openUntil,
+      },
+      { status: 503 },
+    );
+  }
+  return NextResponse.json({
+    latestDraw: cache.latest,
+    updatedAt: new Date(cache.updatedAt).toISOString(),
+    totalDraws: cache.draws.size,
+    upstream,
+  });
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { getReadyCache } from "@/lib/lotto/drawCache";
+import { cachedJson } from "@/lib/lotto/httpCache";
+import { salesTrend } from "@/lib/lotto/jackpot";
+import {
+  parseWindowQuery,
+  selectWindow,
+  type DrawWindowQuery,
+} from "@/lib/lotto/window";
+
+const DEFAULT_ROLLING = 52;
+const MAX_ROLLING = 520;
+
+function badRequest(message: string) {
+  return NextResponse.json({ error: message }, { status: 400 });
+}
+
+/** Ticket sales per draw with a rolling average (`rolling` draws, default 52). */
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const rawRolling = url.searchParams.get("rolling");
+  const rolling = rawRolling ? Number(rawRolling) : DEFAULT_ROLLING;
+  if (!Number.isInteger(rolling) || rolling < 1 || rolling > MAX_ROLLING) {
+    return badRequest(`rolling must be an integer from 1 to ${MAX_ROLLING}`);
+  }
+
+  let windowQuery: DrawWindowQuery;
+  try {
+    windowQuery = parseWindowQuery(url.searchParams);
+  } catch (error) {
+    if ((error as { name?: string }).name === "WindowParamError") {
+      return badRequest((error as Error).message);
+    }
+    throw error;
+  }
+
+  const cache = await getReadyCache();
+  const { draws, window } = selectWindow(cache.draws.values(), windowQuery);
+  const sales = salesTrend(draws, rolling);
+
+  return cachedJson(request, {
+    latestDraw: cache.latest,
+    window,
+    rolling,
+    withoutPrizeData: draws.length - sales.length,
+    totalSales: sales.reduce((sum, point) => sum + point.totalSales, 0),
+    sales,
+  });
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { getReadyCache } from "@/lib/lotto/drawCache";
+import { cachedJson } from "@/lib/lotto/httpCache";
+import { cumulativeFrames, rollingTrends } from "@/lib/lotto/trends";
+import {
+  parseWindowQuery,
+  selectWindow,
+  type DrawWindowQuery,
+} from "@/lib/lotto/window";
+
+const MAX_NUMS = 45;
+const DEFAULT_ROLLING = 52;
+const MAX_ROLLING = 520;
+const DEFAULT_FRAMES = 60;
+const MAX_FRAMES = 200;
+
+function badRequest(message: string) {
+  return NextResponse.json({ error: message }, { status: 400 });
+}
+
+function parseIntParam(
+  params: URLSearchParams,
+  key: string,
+  fallback: number,
+  min: number,
+  max: number,
+) {
+  const raw = params.get(key);
+  const value = raw ? Number(raw) : fallback;
+  return Number.isInteger(value) && value >= min && value <= max ? value : null;
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const includeBonus = url.searchParams.get("includeBonus") === "1";
+
+  const nums = (url.searchParams.get("nums") ?? "")
+    .split(",")
+    .filter((part) => part.trim() !== "")
+    .map(Number);
+  if (
+    nums.length > MAX_NUMS ||
+    nums.some((num) => !Number.isInteger(num) || num < 1 || num > 45)
+  ) {
+    return badRequest(`nums must list up to ${MAX_NUMS} numbers from 1 to 45`);
+  }
+
+  const rolling = parseIntParam(
+    url.searchParams,
+    "rolling",
+    DEFAULT_ROLLING,
+    1,
+    MAX_ROLLING,
+  );
+  if (rolling === null) {
+    return badRequest(`rolling must be an integer from 1 to ${MAX_ROLLING}`);
+  }
+  const frames = parseIntParam(
+    url.searchParams,
+    "frames",
+    DEFAULT_FRAMES,
+    1,
+    MAX_FRAMES,
+  );
+  if (frames === null) {
+    return badRequest(`frames must be an integer from 1 to ${MAX_FRAMES}`);
+  }
+
+  let windowQuery: DrawWindowQuery;
+  try {
+    windowQuery = parseWindowQuery(url.searchParams);
+  } catch (error) {
+    if ((error as { name?: string }).name === "WindowParamError") {
+      return badRequest((error as Error).message);
+    }
+    throw error;
+  }
+
+  const cache = await getReadyCache();
+  const { draws, window } = selectWindow(cache.draws.values(), windowQuery);
+
+  return cachedJson(request, {
+    latestDraw: cache.latest,
+    includeBonus,
+    window,
+    rolling,
+    trends: rollingTrends(draws, [...new Set(nums)], rolling, includeBonus),
+    frames: cumulativeFrames(draws, frames, includeBonus),
+  });
+}
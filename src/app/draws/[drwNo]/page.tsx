@@ -0,0 +1,102 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { GROUP_LABELS } from "@/lib/lotto/constraints";
+import { getReadyCache } from "@/lib/lotto/drawCache";
+import { SCALAR_FEATURES, extractFeatures } from "@/lib/lotto/features";
+import DrawBalls from "../../_components/DrawBalls";
+import { FEATURE_LABELS } from "../../_components/featureLabels";
+import { formatWon } from "../../_components/formatWon";
+import styles from "../../page.module.css";
+
+type DrawPageProps = {
+  params: Promise<{ drwNo: string }>;
+};
+
+export default async function DrawPage({ params }: DrawPageProps) {
+  const { drwNo: rawDrwNo } = await params;
+  if (!/^\d+$/.test(rawDrwNo)) {
+    notFound();
+  }
+  const drwNo = Number(rawDrwNo);
+  const cache = await getReadyCache();
+  const draw = cache.draws.get(drwNo);
+  if (!draw) {
+    notFound();
+  }
+  const features = extractFeatures(draw.numbers);
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.container}>
+        <section className={styles.card}>
+          <div className={styles.cardHeader}>
+            <div className={styles.cardTitle}>{draw.drwNo}회 당첨번호</div>
+            <Link href="/draws" className={styles.cardHint}>
+              ← 회차 목록
+            </Link>
+          </div>
+          <div className={styles.cardHint}>{draw.drwNoDate} 추첨</div>
+          <DrawBalls draw={draw} />
+          <div className={styles.summaryGrid}>
+            {SCALAR_FEATURES.map((feature) => (
+              <div key={feature}>
+                <span>{FEATURE_LABELS[feature]}</span>
+                <strong>{features[feature]}</strong>
+              </div>
+            ))}
+          </div>
+          {draw.prize ? (
+            <div className={styles.summaryGrid}>
+              <div>
+                <span>1등 당첨금</span>
+                <strong>{formatWon(draw.prize.firstPrize)}</strong>
+              </div>
+              <div>
+                <span>1등 당첨자</span>
+                <strong>{draw.prize.firstWinners}명</strong>
+              </div>
+              <div>
+                <span>1등 총 당첨금</span>
+                <strong>{formatWon(draw.prize.firstPrizeTotal)}</strong>
+              </div>
+              <div>
+                <span>총 판매액</span>
+                <strong>{formatWon(draw.prize.totalSales)}</strong>
+              </div>
+            </div>
+          ) : null}
+          <div className={styles.tableWrap}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  {GROUP_LABELS.map((label) => (
+                    <th key={label}>{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  {features.groupCounts.map((count, index) => (
+                    <td key={GROUP_LABELS[index]}>{count}개</td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <div className={styles.slipControls}>
+            {cache.draws.has(drwNo - 1) ? (
+              <Link href={`/draws/${drwNo - 1}`} className={styles.copyButton}>
+                ← {drwNo - 1}회
+              </Link>
+            ) : null}
+            {cache.draws.has(drwNo + 1) ? (
+              <Link href={`/draws/${drwNo + 1}`} className={styles.copyButton}>
+                {drwNo + 1}회 →
+              </Link>
+            ) : null}
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { Draw } from "@/lib/lotto/types";
+import DrawBalls from "../_components/DrawBalls";
+import styles from "../page.module.css";
+
+type DrawsResponse = {
+  total: number;
+  page: number;
+  pageCount: number;
+  items: Draw[];
+};
+
+type Filters = {
+  contains: string;
+  fromDate: string;
+  toDate: string;
+};
+
+const EMPTY_FILTERS: Filters = { contains: "", fromDate: "", toDate: "" };
+const PAGE_SIZE = 20;
+
+export default function DrawsPage() {
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<"desc" | "asc">("desc");
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<DrawsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const params = new URLSearchParams({
+          page: String(page),
+          pageSize: String(PAGE_SIZE),
+          sort,
+        });
+        for (const [key, value] of Object.entries(filters)) {
+          if (value.trim()) {
+            params.set(key, value.trim().replace(/\s+/g, ""));
+          }
+        }
+        const response = await fetch(`/api/lotto/draws?${params}`);
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error ?? `HTTP ${response.status}`);
+        }
+        if (!cancelled) {
+          setData(body as DrawsResponse);
+          setError(null);
+        }
+      } catch (loadError) {
+        console.warn("Failed to load draws", loadError);
+        if (!cancelled) {
+          setError(
+            "회차 목록을 불러오지 못했습니다. 검색 조건을 확인해 주세요.",
+          );
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, sort, page]);
+
+  const search = () => {
+    setFilters(draft);
+    setPage(1);
+  };
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.container}>
+        <section className={styles.card}>
+          <div className={styles.cardHeader}>
+            <div className={styles.cardTitle}>회차별 당첨번호</div>
+            <Link href="/" className={styles.cardHint}>
+              ← 추천으로
+            </Link>
+          </div>
+          <div className={styles.checkControls}>
+            <label className={styles.field}>
+              <span>포함 번호</span>
+              <input
+                className={styles.input}
+                placeholder="예: 7,27"
+                value={draft.contains}
+                onChange={(event) =>
+                  setDraft({ ...draft, contains: event.target.value })
+                }
+              />
+            </label>
+            <label className={styles.field}>
+              <span>시작일</span>
+              <input
+                className={styles.input}
+                type="date"
+                value={draft.fromDate}
+                onChange={(event) =>
+                  setDraft({ ...draft, fromDate: event.target.value })
+                }
+              />
+            </label>
+            <label className={styles.field}>
+              <span>종료일</span>
+              <input
+                className={styles.input}
+                type="date"
+                value={draft.toDate}
+                onChange={(event) =>
+                  setDraft({ ...draft, toDate: event.target.value })
+                }
+              />
+            </label>
+            <button type="button" className={styles.button} onClick={search}>
+              검색
+            </button>
+            <button
+              type="button"
+              className={styles.copyButton}
+              onClick={() => {
+                setSort(sort === "desc" ? "asc" : "desc");
+                setPage(1);
+              }}
+            >
+              {sort === "desc" ? "최신순" : "오래된순"}
+            </button>
+          </div>
+          {error ? (
+            <div className={`${styles.status} ${styles.statusWarn}`}>
+              {error}
+            </div>
+          ) : null}
+          {data ? (
+            <>
+              <div className={styles.slipControls}>
+                <span className={styles.cardHint}>{data.total}개 회차</span>
+                <a
+                  className={styles.copyButton}
+                  href="/api/lotto/export/draws?format=csv"
+                >
+                  당첨번호 CSV
+                </a>
+                <a
+                  className={styles.copyButton}
+                  href="/api/lotto/export/draws?format=json"
+                >
+                  당첨번호 JSON
+                </a>
+                <a
+                  className={styles.copyButton}
+                  href="/api/lotto/export/ranking?format=csv"
+                >
+                  빈도 순위 CSV
+                </a>
+              </div>
+              <div className={styles.tableWrap}>
+                <table className={styles.table}>
+                  <thead>
+                    <tr>
+                      <th>회차</th>
+                      <th>추첨일</th>
+                      <th>당첨번호</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.items.map((draw) => (
+                      <tr key={draw.drwNo}>
+                        <th>
+                          <Link href={`/draws/${draw.drwNo}`}>
+                            {draw.drwNo}회
+                          </Link>
+                        </th>
+                        <td>{draw.drwNoDate}</td>
+                        <td>
+                          <DrawBalls draw={draw} />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className={styles.slipControls}>
+                <button
+                  type="button"
+                  className={styles.copyButton}
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                >
+                  이전
+                </button>
+                <span className={styles.cardHint}>
+                  {data.pageCount === 0 ? 0 : page} / {data.pageCount}
+                </span>
+                <button
+                  type="button"
+                  className={styles.copyButton}
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= data.pageCount}
+                >
+                  다음
+                </button>
+              </div>
+            </>
+          ) : null}
+        </section>
+      </div>
+    </div>
+  );
+}
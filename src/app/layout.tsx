@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Noto_Sans_KR, Space_Grotesk } from "next/font/google";
+import ServiceWorkerRegistrar from "./_components/ServiceWorkerRegistrar";
 import "./globals.css";
 
 const notoSansKr = Noto_Sans_KR({
@@ -34,6 +35,7 @@ export default function RootLayout({
     <html lang="ko">
       <body className={`${notoSansKr.variable} ${spaceGrotesk.variable}`}>
         {children}
+        <ServiceWorkerRegistrar />
       </body>
     </html>
   );
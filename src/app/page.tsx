@@ -1,17 +1,78 @@
 "use client";
 
-import { useCallback, useMemo, useState } from "react";
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { ALGORITHMS, ALGO_MODES, type AlgoMode } from "@/lib/lotto/algorithms";
+import { buildRankingFromCounts } from "@/lib/lotto/ranking";
+import {
+  DEFAULT_CONSTRAINTS,
+  type PickConstraints,
+} from "@/lib/lotto/constraints";
+import {
+  cryptoRng,
+  mulberry32,
+  parseSeed,
+  randomSeed,
+  type Rng,
+} from "@/lib/lotto/rng";
+import { MAX_SLIP_TICKETS, generateSlip, wheelPool } from "@/lib/lotto/slip";
+import type { FeatureHistograms } from "@/lib/lotto/features";
+import type { NumberStats } from "@/lib/lotto/gaps";
+import type { ComboStat, PairMatrix } from "@/lib/lotto/pairs";
+import type { Draw, RankingItem } from "@/lib/lotto/types";
 import styles from "./page.module.css";
+import BacktestPanel from "./_components/BacktestPanel";
+import ConstraintEditor from "./_components/ConstraintEditor";
+import HistoryPanel from "./_components/HistoryPanel";
+import NumberStatsPanel from "./_components/NumberStatsPanel";
+import PairsPanel from "./_components/PairsPanel";
+import RandomnessPanel from "./_components/RandomnessPanel";
+import StatsDashboard from "./_components/StatsDashboard";
 import QrScanner from "./_components/QrScanner";
+import TicketCheckPanel from "./_components/TicketCheckPanel";
+import TicketList from "./_components/TicketList";
+import { addHistoryEntry } from "./_components/ticketHistory";
+import { useOnline } from "./_components/useOnline";
 
-type RankingItem = {
-  num: number;
-  count: number;
+type LottoApiResponse = {
+  source: string;
+  updatedAt: string;
+  latestDraw: number;
+  latestDate: string | null;
+  totalDraws: number;
+  includeBonus: boolean;
+  counts: RankingItem[];
+  ranking: RankingItem[];
+  hasData: boolean;
+  numberStats: NumberStats[];
+  recentDraws: Draw[];
+  missingDraws: number[];
+  apiBlockedUntil: number | null;
 };
 
-type AlgoMode = "weighted" | "balanced" | "filtered" | "probabilistic";
+type PairsApiResponse = {
+  pairs: ComboStat[];
+  matrix: PairMatrix;
+};
+
+type LoadState = "loading" | "ready" | "blocked" | "error";
 
-const IMAGE_COUNTS: RankingItem[] = [
+type RankingSource = {
+  kind: "live" | "snapshot";
+  firstDraw: number;
+  lastDraw: number;
+  latestDate: string | null;
+  updatedAt: string | null;
+};
+
+// Bundled fallback: main-number counts for draws 1–1209 (bonus excluded).
+const SNAPSHOT_RANGE = {
+  firstDraw: 1,
+  lastDraw: 1209,
+  latestDate: "2026-01-31",
+};
+
+const SNAPSHOT_COUNTS: RankingItem[] = [
   { num: 34, count: 181 },
   { num: 12, count: 177 },
   { num: 27, count: 176 },
@@ -59,145 +120,224 @@ const IMAGE_COUNTS: RankingItem[] = [
   { num: 9, count: 132 },
 ];
 
-function shuffle<T>(items: T[]) {
-  const data = [...items];
-  for (let i = data.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [data[i], data[j]] = [data[j], data[i]];
-  }
-  return data;
+function formatDateTime(value: string | number) {
+  return new Date(value).toLocaleString("ko-KR", {
+    month: "numeric",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
 }
 
-function weightedPick(
-  counts: RankingItem[],
-  size: number,
-  power = 1.4,
-) {
-  const pool = counts.map((item) => ({
-    num: item.num,
-    weight: Math.max(1, item.count) ** power,
-  }));
-  const picked: number[] = [];
-  const local = [...pool];
-  for (let i = 0; i < size && local.length > 0; i += 1) {
-    const total = local.reduce((sum, item) => sum + item.weight, 0);
-    let r = Math.random() * total;
-    let idx = 0;
-    while (idx < local.length && r > local[idx].weight) {
-      r -= local[idx].weight;
-      idx += 1;
-    }
-    const chosen = local[Math.min(idx, local.length - 1)];
-    picked.push(chosen.num);
-    local.splice(Math.min(idx, local.length - 1), 1);
-  }
-  return picked.sort((a, b) => a - b);
-}
+export default function Home() {
+  const [algoMode, setAlgoMode] = useState<AlgoMode>("weighted");
+  const [algoPick, setAlgoPick] = useState<number[][] | null>(null);
+  const [ticketCount, setTicketCount] = useState(1);
+  const [maxShared, setMaxShared] = useState<number | null>(null);
+  const [poolSize, setPoolSize] = useState<number | null>(null);
+  const [pickSeed, setPickSeed] = useState<number | null>(null);
+  const [seedInput, setSeedInput] = useState("");
+  const [useCrypto, setUseCrypto] = useState(false);
+  const [constraints, setConstraints] =
+    useState<PickConstraints>(DEFAULT_CONSTRAINTS);
+  const [pickError, setPickError] = useState<string[] | null>(null);
+  const [pickAlgorithm, setPickAlgorithm] = useState<string>("weighted");
+  const [pickSaved, setPickSaved] = useState(false);
+  const [loadState, setLoadState] = useState<LoadState>("loading");
+  const [apiData, setApiData] = useState<LottoApiResponse | null>(null);
+  const [pairData, setPairData] = useState<PairsApiResponse | null>(null);
+  const [histograms, setHistograms] = useState<FeatureHistograms | null>(null);
+  const online = useOnline();
 
-function balancedPick(
-  counts: RankingItem[],
-  groupTargets = [1, 1, 1, 1, 2],
-) {
-  const groups: number[][] = [[], [], [], [], []];
-  for (const item of counts) {
-    const idx = Math.min(Math.floor((item.num - 1) / 10), 4);
-    groups[idx].push(item.num);
-  }
-  const result: number[] = [];
-  groupTargets.forEach((size, idx) => {
-    const group = groups[idx];
-    const shuffled = shuffle(group);
-    result.push(...shuffled.slice(0, size));
-  });
-  return result.sort((a, b) => a - b).slice(0, 6);
-}
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await fetch("/api/lotto");
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        const data = (await response.json()) as LottoApiResponse;
+        if (cancelled) {
+          return;
+        }
+        setApiData(data);
+        // Cached draws stay usable while upstream is blocked; only fall back
+        // to the bundled snapshot when the server has nothing to serve.
+        if (data.hasData) {
+          setLoadState("ready");
+        } else if (
+          data.apiBlockedUntil !== null &&
+          data.apiBlockedUntil > Date.now()
+        ) {
+          setLoadState("blocked");
+        } else {
+          setLoadState("error");
+        }
+      } catch (error) {
+        console.warn("Failed to load /api/lotto", error);
+        if (!cancelled) {
+          setLoadState("error");
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
-function filteredPick(counts: RankingItem[]) {
-  for (let attempt = 0; attempt < 200; attempt += 1) {
-    const pick = weightedPick(counts, 6, 1.2);
-    const odds = pick.filter((n) => n % 2 === 1).length;
-    const sum = pick.reduce((a, b) => a + b, 0);
-    if (odds === 3 && sum >= 90 && sum <= 180) {
-      return pick;
+  useEffect(() => {
+    if (loadState !== "ready") {
+      return;
     }
-  }
-  return weightedPick(counts, 6, 1.1);
-}
-
-function probabilisticPick(counts: RankingItem[]) {
-  return weightedPick(counts, 6, 1.0);
-}
+    let cancelled = false;
+    fetch("/api/lotto/pairs?matrix=1&top=10")
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        return response.json() as Promise<PairsApiResponse>;
+      })
+      .then((data) => {
+        if (!cancelled) {
+          setPairData(data);
+        }
+      })
+      .catch((error) => console.warn("Failed to load pair stats", error));
+    fetch("/api/lotto/features")
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        return response.json() as Promise<{ histograms: FeatureHistograms }>;
+      })
+      .then((data) => {
+        if (!cancelled) {
+          setHistograms(data.histograms);
+        }
+      })
+      .catch((error) => console.warn("Failed to load draw features", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [loadState]);
 
-function buildRankingFromCounts(counts: RankingItem[]) {
-  const fullCounts = Array.from({ length: 45 }, (_, index) => {
-    const num = index + 1;
-    const found = counts.find((item) => item.num === num);
+  const { baseRanking, rankingSource } = useMemo(() => {
+    if (loadState === "ready" && apiData) {
+      return {
+        baseRanking: buildRankingFromCounts(apiData.counts).ranking,
+        rankingSource: {
+          kind: "live",
+          firstDraw: 1,
+          lastDraw: apiData.latestDraw,
+          latestDate: apiData.latestDate,
+          updatedAt: apiData.updatedAt,
+        } satisfies RankingSource,
+      };
+    }
     return {
-      num,
-      count: found?.count ?? 0,
+      baseRanking: buildRankingFromCounts(SNAPSHOT_COUNTS).ranking,
+      rankingSource: {
+        kind: "snapshot",
+        ...SNAPSHOT_RANGE,
+        updatedAt: null,
+      } satisfies RankingSource,
     };
-  });
+  }, [loadState, apiData]);
 
-  const ranking = [...fullCounts].sort((a, b) => {
-    if (b.count !== a.count) {
-      return b.count - a.count;
-    }
-    return a.num - b.num;
-  });
+  // Gap stats need real draws, so the bundled snapshot cannot provide them.
+  const numberStats =
+    loadState === "ready" ? (apiData?.numberStats ?? null) : null;
 
-  const maxCount = ranking[0]?.count ?? 0;
-  return {
-    counts: fullCounts,
-    ranking,
-    hasData: maxCount > 0,
-  };
-}
+  const runPick = useCallback(
+    (rng: Rng, seed: number | null) => {
+      const slipOptions = {
+        count: ticketCount,
+        maxShared: maxShared ?? undefined,
+      };
+      try {
+        setAlgoPick(
+          poolSize
+            ? wheelPool(
+                baseRanking.slice(0, poolSize).map((item) => item.num),
+                rng,
+                slipOptions,
+              )
+            : generateSlip(algoMode, baseRanking, rng, {
+                ...slipOptions,
+                constraints,
+                stats: numberStats ?? undefined,
+                pairs: pairData?.matrix,
+              }),
+        );
+        setPickSeed(seed);
+        setPickAlgorithm(poolSize ? "wheel" : algoMode);
+        setPickSaved(false);
+        setPickError(null);
+      } catch (error) {
+        const name = (error as { name?: string }).name;
+        if (
+          name === "UnsatisfiableConstraintsError" ||
+          name === "ConstraintSearchExhaustedError"
+        ) {
+          setPickError((error as { reasons: string[] }).reasons);
+        } else if (name === "SlipError") {
+          setPickError([
+            maxShared === null
+              ? `${ticketCount}게임을 만들 수 없습니다. 번호 풀을 넓히거나 게임 수를 줄여 주세요.`
+              : `서로 겹치는 번호가 ${maxShared}개 이하인 ${ticketCount}게임을 만들 수 없습니다. 게임 수를 줄이거나 제한을 완화해 주세요.`,
+          ]);
+        } else {
+          throw error;
+        }
+        setAlgoPick(null);
+      }
+    },
+    [
+      algoMode,
+      baseRanking,
+      numberStats,
+      pairData,
+      constraints,
+      ticketCount,
+      maxShared,
+      poolSize,
+    ],
+  );
 
-function getBallClass(num: number) {
-  if (num <= 10) {
-    return styles.c1;
-  }
-  if (num <= 20) {
-    return styles.c2;
-  }
-  if (num <= 30) {
-    return styles.c3;
-  }
-  if (num <= 40) {
-    return styles.c4;
-  }
-  return styles.c5;
-}
+  const buildAlgoPick = useCallback(() => {
+    if (useCrypto) {
+      runPick(cryptoRng(), null);
+      return;
+    }
+    const seed = randomSeed();
+    setSeedInput(String(seed));
+    runPick(mulberry32(seed), seed);
+  }, [runPick, useCrypto]);
 
-export default function Home() {
-  const [algoMode, setAlgoMode] = useState<AlgoMode>("weighted");
-  const [algoPick, setAlgoPick] = useState<number[] | null>(null);
+  const seedFromInput = parseSeed(seedInput);
 
-  const baseRanking = useMemo(
-    () => buildRankingFromCounts(IMAGE_COUNTS).ranking,
-    [],
-  );
+  const rebuildFromSeed = useCallback(() => {
+    if (seedFromInput !== null) {
+      runPick(mulberry32(seedFromInput), seedFromInput);
+    }
+  }, [runPick, seedFromInput]);
 
-  const buildAlgoPick = useCallback(() => {
-    const counts = baseRanking;
-    switch (algoMode) {
-      case "weighted":
-        setAlgoPick(weightedPick(counts, 6));
-        break;
-      case "balanced":
-        setAlgoPick(balancedPick(counts));
-        break;
-      case "filtered":
-        setAlgoPick(filteredPick(counts));
-        break;
-      case "probabilistic":
-        setAlgoPick(probabilisticPick(counts));
-        break;
-      default:
-        setAlgoPick(weightedPick(counts, 6));
-        break;
+  const nextDraw = (apiData?.latestDraw ?? rankingSource.lastDraw) + 1;
+
+  const savePick = useCallback(() => {
+    if (!algoPick) {
+      return;
     }
-  }, [algoMode, baseRanking]);
+    addHistoryEntry({
+      source: "generated",
+      algorithm: pickAlgorithm,
+      seed: pickSeed,
+      targetDraw: nextDraw,
+      tickets: algoPick,
+    });
+    setPickSaved(true);
+  }, [algoPick, pickAlgorithm, pickSeed, nextDraw]);
 
   return (
     <div className={styles.page}>
@@ -208,71 +348,238 @@ export default function Home() {
               <div className={styles.cardTitle}>통계 기반 추천</div>
               <div className={styles.cardHint}>알고리즘 선택 후 생성</div>
             </div>
+            {!online ? (
+              <div className={`${styles.status} ${styles.statusWarn}`}>
+                오프라인 –{" "}
+                {apiData
+                  ? `${formatDateTime(apiData.updatedAt)} 기준 데이터`
+                  : "내장 데이터"}
+              </div>
+            ) : null}
+            {loadState === "loading" ? (
+              <div className={styles.status}>
+                최신 당첨 데이터를 불러오는 중입니다…
+              </div>
+            ) : null}
+            {loadState === "blocked" && apiData?.apiBlockedUntil ? (
+              <div className={`${styles.status} ${styles.statusWarn}`}>
+                공식 API 접근이 {formatDateTime(apiData.apiBlockedUntil)}까지
+                차단되어 내장 데이터를 사용합니다.
+              </div>
+            ) : null}
+            {loadState === "error" ? (
+              <div className={`${styles.status} ${styles.statusWarn}`}>
+                최신 데이터를 불러오지 못해 내장 데이터를 사용합니다.
+              </div>
+            ) : null}
             <div className={styles.algoButtons}>
-              <button
-                type="button"
-                className={`${styles.toggle} ${
-                  algoMode === "weighted" ? styles.toggleActive : ""
-                }`}
-                onClick={() => setAlgoMode("weighted")}
-              >
-                1. 가중치 추천
-              </button>
-              <button
-                type="button"
-                className={`${styles.toggle} ${
-                  algoMode === "balanced" ? styles.toggleActive : ""
-                }`}
-                onClick={() => setAlgoMode("balanced")}
-              >
-                2. 구간 밸런스
-              </button>
-              <button
-                type="button"
-                className={`${styles.toggle} ${
-                  algoMode === "filtered" ? styles.toggleActive : ""
-                }`}
-                onClick={() => setAlgoMode("filtered")}
-              >
-                3. 홀짝/합계필터
-              </button>
-              <button
-                type="button"
-                className={`${styles.toggle} ${
-                  algoMode === "probabilistic" ? styles.toggleActive : ""
-                }`}
-                onClick={() => setAlgoMode("probabilistic")}
-              >
-                4. 임의 확률추천
-              </button>
+              {ALGO_MODES.map((mode, index) => (
+                <button
+                  key={mode}
+                  type="button"
+                  className={`${styles.toggle} ${
+                    algoMode === mode ? styles.toggleActive : ""
+                  }`}
+                  onClick={() => setAlgoMode(mode)}
+                  disabled={
+                    (ALGORITHMS[mode].usesStats && !numberStats) ||
+                    (ALGORITHMS[mode].usesPairs && !pairData)
+                  }
+                >
+                  {index + 1}. {ALGORITHMS[mode].label}
+                </button>
+              ))}
+            </div>
+            <div className={styles.slipControls}>
+              <label className={styles.field}>
+                <span>게임 수</span>
+                <input
+                  className={styles.input}
+                  type="number"
+                  min={1}
+                  max={MAX_SLIP_TICKETS}
+                  value={ticketCount}
+                  onChange={(event) =>
+                    setTicketCount(
+                      Math.min(
+                        MAX_SLIP_TICKETS,
+                        Math.max(1, Number(event.target.value) || 1),
+                      ),
+                    )
+                  }
+                />
+              </label>
+              <label className={styles.field}>
+                <span>게임 간 최대 공유 번호</span>
+                <select
+                  className={styles.input}
+                  value={maxShared ?? ""}
+                  onChange={(event) =>
+                    setMaxShared(
+                      event.target.value === ""
+                        ? null
+                        : Number(event.target.value),
+                    )
+                  }
+                >
+                  <option value="">제한 없음</option>
+                  {[0, 1, 2, 3, 4, 5].map((n) => (
+                    <option key={n} value={n}>
+                      {n}개
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className={styles.field}>
+                <span>번호 풀 분산</span>
+                <select
+                  className={styles.input}
+                  value={poolSize ?? ""}
+                  onChange={(event) =>
+                    setPoolSize(
+                      event.target.value === ""
+                        ? null
+                        : Number(event.target.value),
+                    )
+                  }
+                >
+                  <option value="">사용 안 함</option>
+                  {[12, 18, 24].map((n) => (
+                    <option key={n} value={n}>
+                      상위 {n}개
+                    </option>
+                  ))}
+                </select>
+              </label>
             </div>
+            {poolSize ? (
+              <div className={styles.cardHint}>
+                빈도 상위 {poolSize}개 번호를 게임마다 고르게 나눠 씁니다.
+                알고리즘 선택은 적용되지 않습니다.
+              </div>
+            ) : null}
+            {!poolSize && ALGORITHMS[algoMode].usesConstraints ? (
+              <ConstraintEditor
+                value={constraints}
+                onChange={setConstraints}
+                groupsOnly={algoMode === "balanced"}
+              />
+            ) : null}
             <button
               type="button"
               className={`${styles.button} ${styles.buttonPrimary}`}
               onClick={buildAlgoPick}
+              disabled={loadState === "loading"}
             >
               추천 생성
             </button>
+            {loadState !== "loading" ? (
+              <div className={styles.sourceInfo}>
+                {rankingSource.firstDraw}–{rankingSource.lastDraw}회
+                {rankingSource.latestDate
+                  ? ` (${rankingSource.latestDate})`
+                  : ""}{" "}
+                ·{" "}
+                {rankingSource.kind === "live"
+                  ? "동행복권 공식 데이터"
+                  : "내장 스냅샷"}
+                {rankingSource.updatedAt
+                  ? ` · ${formatDateTime(rankingSource.updatedAt)} 갱신`
+                  : ""}
+                {rankingSource.kind === "live" && apiData?.missingDraws.length
+                  ? ` · 누락 ${apiData.missingDraws.length}회차 재시도 대기`
+                  : ""}
+              </div>
+            ) : null}
+            {pickError ? (
+              <div className={`${styles.status} ${styles.statusWarn}`}>
+                조건을 만족하는 번호를 만들 수 없습니다.
+                <ul className={styles.reasonList}>
+                  {pickError.map((reason) => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
+            <label className={styles.checkbox}>
+              <input
+                type="checkbox"
+                checked={useCrypto}
+                onChange={(event) => setUseCrypto(event.target.checked)}
+              />
+              암호학적 난수 사용 (시드 재현 불가)
+            </label>
             {algoPick ? (
-              <div className={styles.numbers}>
-                {algoPick.map((num) => (
-                  <span
-                    key={`algo-${num}`}
-                    className={`${styles.ball} ${getBallClass(num)}`}
-                  >
-                    {num}
-                  </span>
-                ))}
+              <div className={styles.pickRow}>
+                <TicketList tickets={algoPick} histograms={histograms} />
+                <span className={styles.seedTag}>
+                  {pickSeed !== null ? `시드 ${pickSeed}` : "암호학적 난수"}
+                </span>
               </div>
             ) : (
               <div className={styles.cardHint}>
                 알고리즘을 선택하고 “추천 생성”을 눌러주세요.
               </div>
             )}
+            <div className={styles.checkControls}>
+              <input
+                className={styles.input}
+                inputMode="numeric"
+                placeholder="시드 입력"
+                value={seedInput}
+                onChange={(event) => setSeedInput(event.target.value)}
+              />
+              <button
+                type="button"
+                className={styles.button}
+                onClick={rebuildFromSeed}
+                disabled={loadState === "loading" || seedFromInput === null}
+              >
+                시드로 재생성
+              </button>
+            </div>
+            {algoPick ? (
+              <button
+                type="button"
+                className={styles.button}
+                onClick={savePick}
+                disabled={pickSaved}
+              >
+                {pickSaved
+                  ? `내 번호에 저장됨 (${nextDraw}회)`
+                  : `내 번호에 저장 (${nextDraw}회)`}
+              </button>
+            ) : null}
+            {algoPick ? (
+              <TicketCheckPanel
+                key={algoPick.map((ticket) => ticket.join("-")).join("/")}
+                tickets={algoPick}
+                latestDraw={apiData?.latestDraw ?? null}
+              />
+            ) : null}
           </div>
         </section>
 
+        <StatsDashboard
+          key={rankingSource.kind}
+          ranking={baseRanking}
+          live={rankingSource.kind === "live"}
+        />
+        {numberStats ? <NumberStatsPanel stats={numberStats} /> : null}
+        {pairData ? <PairsPanel pairs={pairData.pairs} /> : null}
+        {loadState === "ready" && apiData ? (
+          <RandomnessPanel latestDraw={apiData.latestDraw} />
+        ) : null}
         <QrScanner />
+        <HistoryPanel
+          latestDraw={
+            loadState === "ready" ? (apiData?.latestDraw ?? null) : null
+          }
+        />
+        <BacktestPanel />
+        <Link href="/draws" className={styles.credit}>
+          회차별 당첨번호 보기 →
+        </Link>
         <div className={styles.credit}>제작자 : J.C.Moon</div>
       </div>
     </div>
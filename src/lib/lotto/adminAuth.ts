@@ -0,0 +1,27 @@
+import { timingSafeEqual } from "node:crypto";
+import { NextResponse } from "next/server";
+
+function isAuthorized(request: Request, token: string) {
+  const header = request.headers.get("authorization") ?? "";
+  const given = Buffer.from(header.replace(/^Bearer\s+/i, ""));
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Guards admin endpoints with `Authorization: Bearer $LOTTO_ADMIN_TOKEN`.
+ * Returns an error response to send, or null when the caller may proceed.
+ */
+export function checkAdmin(request: Request) {
+  const token = process.env.LOTTO_ADMIN_TOKEN;
+  if (!token) {
+    return NextResponse.json(
+      { error: "admin endpoints are disabled; set LOTTO_ADMIN_TOKEN" },
+      { status: 403 },
+    );
+  }
+  if (!isAuthorized(request, token)) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+  return null;
+}
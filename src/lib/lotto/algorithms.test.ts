@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { isAlgoMode } from "./algorithms";
+
+describe("isAlgoMode", () => {
+  it("accepts registered modes", () => {
+    expect(isAlgoMode("weighted")).toBe(true);
+    expect(isAlgoMode("pairs")).toBe(true);
+  });
+
+  it("rejects unknown values and object prototype keys", () => {
+    expect(isAlgoMode("random")).toBe(false);
+    expect(isAlgoMode(1)).toBe(false);
+    expect(isAlgoMode("toString")).toBe(false);
+    expect(isAlgoMode("constructor")).toBe(false);
+  });
+});
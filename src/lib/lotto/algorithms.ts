@@ -0,0 +1,123 @@
+import { fixedGroupTargets, type PickConstraints } from "./constraints";
+import {
+  balancedPick,
+  filteredPick,
+  overduePick,
+  pairChainPick,
+  probabilisticPick,
+  weightedPick,
+} from "./generators";
+import type { NumberStats } from "./gaps";
+import type { PairMatrix } from "./pairs";
+import type { Rng } from "./rng";
+import type { RankingItem } from "./types";
+
+export type AlgoMode =
+  "weighted" | "balanced" | "filtered" | "probabilistic" | "overdue" | "pairs";
+
+export type GenerateOptions = {
+  constraints?: PickConstraints;
+  /** Gap statistics for the same draws `counts` was built from. */
+  stats?: NumberStats[];
+  /** Co-occurrence counts for the same draws `counts` was built from. */
+  pairs?: PairMatrix;
+};
+
+export type Algorithm = {
+  mode: AlgoMode;
+  label: string;
+  /** Whether the algorithm reads GenerateOptions.constraints. */
+  usesConstraints: boolean;
+  /** Whether the algorithm needs GenerateOptions.stats (i.e. real draw data). */
+  usesStats: boolean;
+  /** Whether the algorithm needs GenerateOptions.pairs. */
+  usesPairs: boolean;
+  generate: (
+    counts: RankingItem[],
+    rng: Rng,
+    options?: GenerateOptions,
+  ) => number[];
+};
+
+/** Every recommendation algorithm, in the order the UI lists them. */
+export const ALGORITHMS: Record<AlgoMode, Algorithm> = {
+  weighted: {
+    mode: "weighted",
+    label: "가중치 추천",
+    usesConstraints: false,
+    usesStats: false,
+    usesPairs: false,
+    generate: (counts, rng) => weightedPick(counts, 6, rng),
+  },
+  balanced: {
+    mode: "balanced",
+    label: "구간 밸런스",
+    usesConstraints: true,
+    usesStats: false,
+    usesPairs: false,
+    generate: (counts, rng, options) =>
+      balancedPick(
+        counts,
+        rng,
+        options?.constraints && fixedGroupTargets(options.constraints),
+      ),
+  },
+  filtered: {
+    mode: "filtered",
+    label: "홀짝/합계필터",
+    usesConstraints: true,
+    usesStats: false,
+    usesPairs: false,
+    generate: (counts, rng, options) =>
+      filteredPick(counts, rng, options?.constraints),
+  },
+  probabilistic: {
+    mode: "probabilistic",
+    label: "임의 확률추천",
+    usesConstraints: false,
+    usesStats: false,
+    usesPairs: false,
+    generate: (counts, rng) => probabilisticPick(counts, rng),
+  },
+  overdue: {
+    mode: "overdue",
+    label: "미출현 가중",
+    usesConstraints: false,
+    usesStats: true,
+    usesPairs: false,
+    generate: (_counts, rng, options) => {
+      if (!options?.stats) {
+        throw new Error("overdue mode needs per-number gap stats");
+      }
+      return overduePick(options.stats, rng);
+    },
+  },
+  pairs: {
+    mode: "pairs",
+    label: "동반 출현 연결",
+    usesConstraints: false,
+    usesStats: false,
+    usesPairs: true,
+    generate: (counts, rng, options) => {
+      if (!options?.pairs) {
+        throw new Error("pairs mode needs a co-occurrence matrix");
+      }
+      return pairChainPick(counts, options.pairs, rng);
+    },
+  },
+};
+
+export const ALGO_MODES = Object.keys(ALGORITHMS) as AlgoMode[];
+
+export function isAlgoMode(value: unknown): value is AlgoMode {
+  return typeof value === "string" && Object.hasOwn(ALGORITHMS, value);
+}
+
+export function generateTicket(
+  mode: AlgoMode,
+  counts: RankingItem[],
+  rng: Rng,
+  options?: GenerateOptions,
+) {
+  return ALGORITHMS[mode].generate(counts, rng, options);
+}
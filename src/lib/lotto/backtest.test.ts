@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { runBacktest } from "./backtest";
+import { NOMINAL_PRIZES } from "./prize";
+import type { Draw } from "./types";
+
+const FIRST_PRIZE = 1_234_567_890;
+
+function draw(drwNo: number, numbers: number[], bonus: number): Draw {
+  return { drwNo, drwNoDate: "2024-01-06", numbers, bonus };
+}
+
+/** `length` draws that keep repeating the same six numbers. */
+function repeatedHistory(length: number, numbers: number[]) {
+  return Array.from({ length }, (_, index) => draw(index + 1, numbers, 45));
+}
+
+const TARGET: Draw = {
+  ...draw(201, [1, 2, 3, 4, 5, 6], 45),
+  prize: {
+    firstPrize: FIRST_PRIZE,
+    firstWinners: 1,
+    firstPrizeTotal: FIRST_PRIZE,
+    totalSales: 100_000_000_000,
+  },
+};
+
+function backtest(history: Draw[], seed: number) {
+  return runBacktest([...history, TARGET], {
+    targets: [TARGET],
+    ticketsPerDraw: 20,
+    includeBonus: false,
+    seed,
+  });
+}
+
+describe("runBacktest", () => {
+  it("is reproducible for a seed", () => {
+    const history = repeatedHistory(200, [1, 2, 3, 4, 5, 6]);
+    expect(backtest(history, 7)).toEqual(backtest(history, 7));
+  });
+
+  it("gives each strategy its own random stream", () => {
+    const hot = backtest(repeatedHistory(200, [1, 2, 3, 4, 5, 6]), 7);
+    const spread = backtest(repeatedHistory(200, [3, 14, 22, 28, 35, 41]), 7);
+    const random = (report: typeof hot) =>
+      report.results.find((row) => row.strategy === "random");
+    expect(random(hot)).toEqual(random(spread));
+    expect(hot).not.toEqual(spread);
+  });
+
+  it("pays the recorded first prize", () => {
+    const report = backtest(repeatedHistory(200, [1, 2, 3, 4, 5, 6]), 7);
+    const weighted = report.results.find((row) => row.strategy === "weighted")!;
+    const { rankCounts } = weighted;
+    expect(rankCounts[1]).toBeGreaterThan(0);
+    expect(weighted.prize).toBe(
+      rankCounts[1] * FIRST_PRIZE +
+        rankCounts[2] * NOMINAL_PRIZES[2] +
+        rankCounts[3] * NOMINAL_PRIZES[3] +
+        rankCounts[4] * NOMINAL_PRIZES[4] +
+        rankCounts[5] * NOMINAL_PRIZES[5],
+    );
+    expect(weighted.prizeExact).toBe(rankCounts[2] + rankCounts[3] === 0);
+  });
+});
@@ -0,0 +1,198 @@
+import { ALGO_MODES, generateTicket, type AlgoMode } from "./algorithms";
+import { buildNumberStats } from "./gaps";
+import { shuffle } from "./generators";
+import { addDrawPairs, emptyPairMatrix } from "./pairs";
+import {
+  NOMINAL_PRIZES,
+  TICKET_PRICE,
+  checkTicket,
+  type PrizeRank,
+} from "./prize";
+import { mulberry32, type Rng } from "./rng";
+import type { Draw, RankingItem } from "./types";
+
+export type BacktestStrategy = AlgoMode | "random";
+
+export type BacktestOptions = {
+  /** Draws to evaluate; every draw before each target is used for training. */
+  targets: Draw[];
+  ticketsPerDraw: number;
+  includeBonus: boolean;
+  /**
+   * Seeds one RNG per strategy so a report is reproducible and a strategy's
+   * tickets do not depend on how many numbers the others consumed.
+   */
+  seed: number;
+};
+
+export type StrategyReport = {
+  strategy: BacktestStrategy;
+  tickets: number;
+  /** Index = number of main numbers matched (0–6). */
+  matchDistribution: number[];
+  rankCounts: Record<PrizeRank, number>;
+  meanMatches: number;
+  winRate: number;
+  cost: number;
+  /** Recorded payouts where the draw has them, NOMINAL_PRIZES otherwise. */
+  prize: number;
+  /** False when any win in `prize` was paid at a nominal amount. */
+  prizeExact: boolean;
+  returnRate: number;
+  vsRandom: {
+    meanMatchDelta: number;
+    winRateDelta: number;
+  } | null;
+};
+
+export type BacktestReport = {
+  seed: number;
+  fromDraw: number | null;
+  toDraw: number | null;
+  drawCount: number;
+  ticketsPerDraw: number;
+  includeBonus: boolean;
+  ticketPrice: number;
+  prizeTable: Record<PrizeRank, number>;
+  /** Mean matches a uniformly random ticket should get: 6 × 6/45. */
+  expectedMeanMatches: number;
+  results: StrategyReport[];
+};
+
+const ALL_NUMBERS = Array.from({ length: 45 }, (_, index) => index + 1);
+const STRATEGIES: BacktestStrategy[] = [...ALGO_MODES, "random"];
+
+function randomPick(rng: Rng) {
+  return shuffle(ALL_NUMBERS, rng)
+    .slice(0, 6)
+    .sort((a, b) => a - b);
+}
+
+/** FNV-1a over the strategy name, mixed with the report seed. */
+function strategySeed(seed: number, strategy: BacktestStrategy) {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < strategy.length; i += 1) {
+    hash = Math.imul(hash ^ strategy.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+function emptyRankCounts(): Record<PrizeRank, number> {
+  return { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+}
+
+/**
+ * Walk-forward backtest: for each target draw, counts are built only from the
+ * draws strictly before it, then every strategy generates `ticketsPerDraw`
+ * tickets that are scored against the target.
+ */
+export function runBacktest(
+  history: Iterable<Draw>,
+  options: BacktestOptions,
+): BacktestReport {
+  const draws = [...history].sort((a, b) => a.drwNo - b.drwNo);
+  const targets = new Set(options.targets.map((draw) => draw.drwNo));
+  const counts: RankingItem[] = ALL_NUMBERS.map((num) => ({ num, count: 0 }));
+  const pairs = emptyPairMatrix();
+
+  const tallies = new Map(
+    STRATEGIES.map((strategy) => [
+      strategy,
+      {
+        rng: mulberry32(strategySeed(options.seed, strategy)),
+        tickets: 0,
+        matchDistribution: Array.from({ length: 7 }, () => 0),
+        rankCounts: emptyRankCounts(),
+        totalMatches: 0,
+        wins: 0,
+        prize: 0,
+        prizeExact: true,
+      },
+    ]),
+  );
+
+  draws.forEach((draw, index) => {
+    if (targets.has(draw.drwNo)) {
+      const stats = buildNumberStats(
+        draws.slice(0, index),
+        options.includeBonus,
+      );
+      for (const strategy of STRATEGIES) {
+        const tally = tallies.get(strategy)!;
+        for (let i = 0; i < options.ticketsPerDraw; i += 1) {
+          const ticket =
+            strategy === "random"
+              ? randomPick(tally.rng)
+              : generateTicket(strategy, counts, tally.rng, { stats, pairs });
+          const result = checkTicket(ticket, draw);
+          tally.tickets += 1;
+          tally.matchDistribution[result.matchCount] += 1;
+          tally.totalMatches += result.matchCount;
+          if (result.rank !== null) {
+            tally.rankCounts[result.rank] += 1;
+            tally.wins += 1;
+            tally.prize += result.payout;
+            tally.prizeExact &&= result.payoutExact;
+          }
+        }
+      }
+    }
+
+    for (const num of draw.numbers) {
+      counts[num - 1].count += 1;
+    }
+    if (options.includeBonus) {
+      counts[draw.bonus - 1].count += 1;
+    }
+    addDrawPairs(pairs, draw, options.includeBonus);
+  });
+
+  const summarize = (strategy: BacktestStrategy) => {
+    const tally = tallies.get(strategy)!;
+    const cost = tally.tickets * TICKET_PRICE;
+    return {
+      strategy,
+      tickets: tally.tickets,
+      matchDistribution: tally.matchDistribution,
+      rankCounts: tally.rankCounts,
+      meanMatches: tally.tickets ? tally.totalMatches / tally.tickets : 0,
+      winRate: tally.tickets ? tally.wins / tally.tickets : 0,
+      cost,
+      prize: tally.prize,
+      prizeExact: tally.prizeExact,
+      returnRate: cost ? tally.prize / cost : 0,
+    };
+  };
+
+  const baseline = summarize("random");
+  const results: StrategyReport[] = STRATEGIES.map((strategy) => {
+    const summary = summarize(strategy);
+    return {
+      ...summary,
+      vsRandom:
+        strategy === "random"
+          ? null
+          : {
+              meanMatchDelta: summary.meanMatches - baseline.meanMatches,
+              winRateDelta: summary.winRate - baseline.winRate,
+            },
+    };
+  });
+
+  const evaluated = options.targets
+    .map((draw) => draw.drwNo)
+    .sort((a, b) => a - b);
+
+  return {
+    seed: options.seed,
+    fromDraw: evaluated[0] ?? null,
+    toDraw: evaluated[evaluated.length - 1] ?? null,
+    drawCount: evaluated.length,
+    ticketsPerDraw: options.ticketsPerDraw,
+    includeBonus: options.includeBonus,
+    ticketPrice: TICKET_PRICE,
+    prizeTable: NOMINAL_PRIZES,
+    expectedMeanMatches: (6 * 6) / 45,
+    results,
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_CONSTRAINTS,
+  explainConflicts,
+  findSatisfyingTicket,
+  satisfiesConstraints,
+  type PickConstraints,
+} from "./constraints";
+
+const ALL = Array.from({ length: 45 }, (_, index) => index + 1);
+
+function constraints(overrides: Partial<PickConstraints>): PickConstraints {
+  return { ...DEFAULT_CONSTRAINTS, ...overrides };
+}
+
+describe("explainConflicts", () => {
+  it("finds nothing wrong with the defaults", () => {
+    expect(explainConflicts(DEFAULT_CONSTRAINTS)).toEqual([]);
+  });
+
+  it("reports numbers both required and excluded", () => {
+    expect(
+      explainConflicts(constraints({ required: [7, 9], excluded: [9] })),
+    ).toEqual(["포함/제외 번호가 겹칩니다: 9"]);
+  });
+
+  it("reports fixed group counts that cannot add up to six", () => {
+    expect(
+      explainConflicts(constraints({ groupCounts: [3, 3, 1, null, null] })),
+    ).toEqual(["구간별 개수 합(7)이 6을 넘습니다."]);
+  });
+
+  it("reports required numbers that break the odd and run limits", () => {
+    const reasons = explainConflicts(
+      constraints({
+        oddCount: { min: 0, max: 1 },
+        required: [1, 2, 3],
+        maxConsecutive: 2,
+      }),
+    );
+    expect(reasons).toContain(
+      "포함 번호의 홀수(2개)가 최대 홀수 개수를 넘습니다.",
+    );
+    expect(reasons).toContain(
+      "포함 번호의 연속 길이가 최대 연속 제한을 넘습니다.",
+    );
+  });
+});
+
+describe("findSatisfyingTicket", () => {
+  it("finds a ticket meeting tight constraints", () => {
+    const c = constraints({
+      oddCount: { min: 6, max: 6 },
+      sum: { min: 200, max: 230 },
+      required: [45],
+      excluded: [43],
+      maxConsecutive: 1,
+    });
+    const result = findSatisfyingTicket(c, ALL);
+    expect(result.status).toBe("found");
+    if (result.status === "found") {
+      expect(satisfiesConstraints(result.ticket, c)).toBe(true);
+      expect(result.ticket).not.toContain(43);
+    }
+  });
+
+  it("proves impossible combinations quickly", () => {
+    // Five numbers from 41–45 are always a run of five.
+    const c = constraints({
+      oddCount: { min: 0, max: 6 },
+      sum: { min: 0, max: 255 },
+      groupCounts: [null, null, null, null, 5],
+      maxConsecutive: 1,
+    });
+    const started = performance.now();
+    expect(findSatisfyingTicket(c, ALL)).toEqual({ status: "none" });
+    expect(performance.now() - started).toBeLessThan(250);
+  });
+
+  it("gives up on excluded numbers the pick would need", () => {
+    const c = constraints({
+      oddCount: { min: 0, max: 6 },
+      sum: { min: 0, max: 255 },
+      groupCounts: [null, null, null, null, 2],
+      excluded: [41, 42, 43, 44],
+    });
+    expect(findSatisfyingTicket(c, ALL)).toEqual({ status: "none" });
+  });
+});
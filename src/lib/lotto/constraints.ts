@@ -0,0 +1,422 @@
+import { MAX_NUMBER, TICKET_SIZE } from "./prize";
+
+export type CountRange = {
+  min: number;
+  max: number;
+};
+
+export type PickConstraints = {
+  oddCount: CountRange;
+  sum: CountRange;
+  /** How many numbers come from the high half (23–45). */
+  highCount: CountRange;
+  /** Longest allowed run of consecutive numbers, e.g. 2 allows 7-8 but not 7-8-9. */
+  maxConsecutive: number;
+  required: number[];
+  excluded: number[];
+  /** Exact count per ball color band (1–10, 11–20, 21–30, 31–40, 41–45); null = any. */
+  groupCounts: (number | null)[];
+};
+
+export class ConstraintError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConstraintError";
+  }
+}
+
+export class UnsatisfiableConstraintsError extends Error {
+  readonly reasons: string[];
+
+  constructor(reasons: string[]) {
+    super(`constraints are unsatisfiable: ${reasons.join("; ")}`);
+    this.name = "UnsatisfiableConstraintsError";
+    this.reasons = reasons;
+  }
+}
+
+/** The search gave up before proving whether a ticket exists. */
+export class ConstraintSearchExhaustedError extends Error {
+  readonly reasons: string[];
+
+  constructor() {
+    const reason =
+      "조건이 까다로워 조합을 찾지 못했습니다. 조건을 조금 완화해 주세요.";
+    super(`constraint search budget exhausted: ${reason}`);
+    this.name = "ConstraintSearchExhaustedError";
+    this.reasons = [reason];
+  }
+}
+
+/** "none" proves no ticket exists; "exhausted" means the budget ran out first. */
+export type SearchResult =
+  | { status: "found"; ticket: number[] }
+  | { status: "none" }
+  | { status: "exhausted" };
+
+export const HIGH_START = 23;
+export const GROUP_LABELS = ["1–10", "11–20", "21–30", "31–40", "41–45"];
+const GROUP_SIZES = [10, 10, 10, 10, 5];
+const MIN_SUM = 1 + 2 + 3 + 4 + 5 + 6;
+const MAX_SUM = 40 + 41 + 42 + 43 + 44 + 45;
+const SEARCH_BUDGET = 2_000_000;
+
+export const DEFAULT_CONSTRAINTS: PickConstraints = {
+  oddCount: { min: 3, max: 3 },
+  sum: { min: 90, max: 180 },
+  highCount: { min: 0, max: TICKET_SIZE },
+  maxConsecutive: TICKET_SIZE,
+  required: [],
+  excluded: [],
+  groupCounts: [null, null, null, null, null],
+};
+
+export function groupIndex(num: number) {
+  return Math.min(Math.floor((num - 1) / 10), 4);
+}
+
+function parseRange(value: unknown, key: string, lower: number, upper: number) {
+  const range = value as Partial<CountRange> | undefined;
+  const min = Number(range?.min);
+  const max = Number(range?.max);
+  if (
+    !Number.isInteger(min) ||
+    !Number.isInteger(max) ||
+    min < lower ||
+    max > upper ||
+    min > max
+  ) {
+    throw new ConstraintError(
+      `${key} must be { min, max } integers with ${lower} <= min <= max <= ${upper}`,
+    );
+  }
+  return { min, max };
+}
+
+function parseNumberList(value: unknown, key: string) {
+  if (value === undefined) {
+    return [];
+  }
+  if (
+    !Array.isArray(value) ||
+    value.some((n) => !Number.isInteger(n) || n < 1 || n > MAX_NUMBER)
+  ) {
+    throw new ConstraintError(`${key} must be a list of numbers from 1 to 45`);
+  }
+  return [...new Set(value as number[])].sort((a, b) => a - b);
+}
+
+/** Validates untrusted input (e.g. a request body), filling in defaults. */
+export function parseConstraints(value: unknown): PickConstraints {
+  if (value === undefined || value === null) {
+    return DEFAULT_CONSTRAINTS;
+  }
+  if (typeof value !== "object") {
+    throw new ConstraintError("constraints must be an object");
+  }
+  const input = value as Record<string, unknown>;
+  const groupCounts = input.groupCounts ?? DEFAULT_CONSTRAINTS.groupCounts;
+  if (
+    !Array.isArray(groupCounts) ||
+    groupCounts.length !== GROUP_SIZES.length ||
+    groupCounts.some(
+      (n, index) =>
+        n !== null && (!Number.isInteger(n) || n < 0 || n > GROUP_SIZES[index]),
+    )
+  ) {
+    throw new ConstraintError(
+      "groupCounts must list 5 group sizes (integer or null)",
+    );
+  }
+  const maxConsecutive = Number(
+    input.maxConsecutive ?? DEFAULT_CONSTRAINTS.maxConsecutive,
+  );
+  if (
+    !Number.isInteger(maxConsecutive) ||
+    maxConsecutive < 1 ||
+    maxConsecutive > TICKET_SIZE
+  ) {
+    throw new ConstraintError("maxConsecutive must be an integer from 1 to 6");
+  }
+  return {
+    oddCount: parseRange(
+      input.oddCount ?? DEFAULT_CONSTRAINTS.oddCount,
+      "oddCount",
+      0,
+      TICKET_SIZE,
+    ),
+    sum: parseRange(input.sum ?? DEFAULT_CONSTRAINTS.sum, "sum", 0, MAX_SUM),
+    highCount: parseRange(
+      input.highCount ?? DEFAULT_CONSTRAINTS.highCount,
+      "highCount",
+      0,
+      TICKET_SIZE,
+    ),
+    maxConsecutive,
+    required: parseNumberList(input.required, "required"),
+    excluded: parseNumberList(input.excluded, "excluded"),
+    groupCounts: groupCounts as (number | null)[],
+  };
+}
+
+function longestRun(sorted: number[]) {
+  let longest = sorted.length > 0 ? 1 : 0;
+  let run = 1;
+  for (let i = 1; i < sorted.length; i += 1) {
+    run = sorted[i] === sorted[i - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+  return longest;
+}
+
+function inRange(value: number, range: CountRange) {
+  return value >= range.min && value <= range.max;
+}
+
+/** True when a sorted 6-number ticket meets every constraint. */
+export function satisfiesConstraints(ticket: number[], c: PickConstraints) {
+  const odds = ticket.filter((n) => n % 2 === 1).length;
+  const highs = ticket.filter((n) => n >= HIGH_START).length;
+  const sum = ticket.reduce((a, b) => a + b, 0);
+  if (!inRange(odds, c.oddCount) || !inRange(highs, c.highCount)) {
+    return false;
+  }
+  if (!inRange(sum, c.sum) || longestRun(ticket) > c.maxConsecutive) {
+    return false;
+  }
+  if (c.required.some((n) => !ticket.includes(n))) {
+    return false;
+  }
+  if (c.excluded.some((n) => ticket.includes(n))) {
+    return false;
+  }
+  const groups = [0, 0, 0, 0, 0];
+  for (const num of ticket) {
+    groups[groupIndex(num)] += 1;
+  }
+  return c.groupCounts.every(
+    (target, index) => target === null || groups[index] === target,
+  );
+}
+
+/**
+ * Cheap checks that explain the common ways a constraint set can never be met.
+ * An empty list does not prove satisfiability; see findSatisfyingTicket.
+ */
+export function explainConflicts(c: PickConstraints) {
+  const reasons: string[] = [];
+  const ranges: [string, CountRange][] = [
+    ["홀수 개수", c.oddCount],
+    ["합계", c.sum],
+    ["고번호 개수", c.highCount],
+  ];
+  for (const [label, range] of ranges) {
+    if (range.min > range.max) {
+      reasons.push(`${label}의 최소값이 최대값보다 큽니다.`);
+    }
+  }
+  const excluded = new Set(c.excluded);
+  const clash = c.required.filter((n) => excluded.has(n));
+  if (clash.length > 0) {
+    reasons.push(`포함/제외 번호가 겹칩니다: ${clash.join(", ")}`);
+  }
+  if (c.required.length > TICKET_SIZE) {
+    reasons.push(`포함 번호는 최대 ${TICKET_SIZE}개까지 지정할 수 있습니다.`);
+  }
+  if (MAX_NUMBER - excluded.size < TICKET_SIZE) {
+    reasons.push(`제외 후 남은 번호가 ${TICKET_SIZE}개보다 적습니다.`);
+  }
+  if (c.sum.max < MIN_SUM || c.sum.min > MAX_SUM) {
+    reasons.push(`합계 범위는 ${MIN_SUM}–${MAX_SUM} 사이와 겹쳐야 합니다.`);
+  }
+
+  const requiredOdds = c.required.filter((n) => n % 2 === 1).length;
+  const requiredEvens = c.required.length - requiredOdds;
+  if (requiredOdds > c.oddCount.max) {
+    reasons.push(
+      `포함 번호의 홀수(${requiredOdds}개)가 최대 홀수 개수를 넘습니다.`,
+    );
+  }
+  if (requiredEvens > TICKET_SIZE - c.oddCount.min) {
+    reasons.push(
+      `포함 번호의 짝수(${requiredEvens}개)가 허용 범위를 넘습니다.`,
+    );
+  }
+  const requiredHighs = c.required.filter((n) => n >= HIGH_START).length;
+  if (requiredHighs > c.highCount.max) {
+    reasons.push(`포함 번호의 고번호(${requiredHighs}개)가 최대치를 넘습니다.`);
+  }
+  if (c.required.length - requiredHighs > TICKET_SIZE - c.highCount.min) {
+    reasons.push("포함 번호의 저번호가 고/저 비율과 맞지 않습니다.");
+  }
+  const requiredSum = c.required.reduce((a, b) => a + b, 0);
+  if (requiredSum > c.sum.max) {
+    reasons.push(`포함 번호의 합(${requiredSum})이 최대 합계를 넘습니다.`);
+  }
+  if (longestRun(c.required) > c.maxConsecutive) {
+    reasons.push("포함 번호의 연속 길이가 최대 연속 제한을 넘습니다.");
+  }
+
+  const fixed = c.groupCounts.filter((n): n is number => n !== null);
+  const fixedTotal = fixed.reduce((a, b) => a + b, 0);
+  if (fixedTotal > TICKET_SIZE) {
+    reasons.push(`구간별 개수 합(${fixedTotal})이 ${TICKET_SIZE}을 넘습니다.`);
+  }
+  if (fixed.length === GROUP_SIZES.length && fixedTotal < TICKET_SIZE) {
+    reasons.push(
+      `구간별 개수 합(${fixedTotal})이 ${TICKET_SIZE}보다 작습니다.`,
+    );
+  }
+  c.groupCounts.forEach((target, index) => {
+    if (target === null) {
+      return;
+    }
+    if (target > GROUP_SIZES[index]) {
+      reasons.push(
+        `${GROUP_LABELS[index]} 구간에는 번호가 ${GROUP_SIZES[index]}개뿐입니다.`,
+      );
+    }
+    const inGroup = c.required.filter((n) => groupIndex(n) === index).length;
+    if (inGroup > target) {
+      reasons.push(
+        `${GROUP_LABELS[index]} 구간의 포함 번호가 지정 개수(${target})보다 많습니다.`,
+      );
+    }
+  });
+  return reasons;
+}
+
+/**
+ * Depth-first search for a ticket meeting every constraint, trying numbers in
+ * the given order so callers can randomize or weight it. Branches are cut as
+ * soon as a partial pick breaks a limit (including runs longer than
+ * maxConsecutive) or the unused, non-excluded candidates can no longer reach
+ * a minimum or a fixed group count.
+ */
+export function findSatisfyingTicket(
+  c: PickConstraints,
+  order: number[],
+): SearchResult {
+  const excluded = new Set([...c.excluded, ...c.required]);
+  const candidates = order.filter((n) => !excluded.has(n));
+  const slots = TICKET_SIZE - c.required.length;
+  const chosen = [...c.required];
+  let budget = SEARCH_BUDGET;
+
+  // What candidates[i..] can still contribute, per index.
+  const tail = Array.from({ length: candidates.length + 1 }, () => ({
+    odds: 0,
+    highs: 0,
+    groups: [0, 0, 0, 0, 0],
+  }));
+  for (let i = candidates.length - 1; i >= 0; i -= 1) {
+    const num = candidates[i];
+    const next = tail[i + 1];
+    tail[i] = {
+      odds: next.odds + (num % 2),
+      highs: next.highs + (num >= HIGH_START ? 1 : 0),
+      groups: next.groups.map((count, index) =>
+        groupIndex(num) === index ? count + 1 : count,
+      ),
+    };
+  }
+
+  const partialOk = (start: number) => {
+    const remaining = TICKET_SIZE - chosen.length;
+    const available = tail[start];
+    const odds = chosen.filter((n) => n % 2 === 1).length;
+    const highs = chosen.filter((n) => n >= HIGH_START).length;
+    const sum = chosen.reduce((a, b) => a + b, 0);
+    if (odds > c.oddCount.max || odds + remaining < c.oddCount.min) {
+      return false;
+    }
+    if (odds + Math.min(remaining, available.odds) < c.oddCount.min) {
+      return false;
+    }
+    if (highs > c.highCount.max || highs + remaining < c.highCount.min) {
+      return false;
+    }
+    if (highs + Math.min(remaining, available.highs) < c.highCount.min) {
+      return false;
+    }
+    if (
+      sum + remaining > c.sum.max ||
+      sum + remaining * MAX_NUMBER < c.sum.min
+    ) {
+      return false;
+    }
+    // Adding numbers never shortens a run, so a long one can be cut now.
+    if (longestRun([...chosen].sort((a, b) => a - b)) > c.maxConsecutive) {
+      return false;
+    }
+    const groups = [0, 0, 0, 0, 0];
+    for (const num of chosen) {
+      groups[groupIndex(num)] += 1;
+    }
+    let deficit = 0;
+    for (let index = 0; index < groups.length; index += 1) {
+      const target = c.groupCounts[index];
+      if (target === null) {
+        continue;
+      }
+      if (
+        groups[index] > target ||
+        groups[index] + available.groups[index] < target
+      ) {
+        return false;
+      }
+      deficit += target - groups[index];
+    }
+    return deficit <= remaining;
+  };
+
+  const search = (start: number): boolean => {
+    budget -= 1;
+    if (budget < 0 || !partialOk(start)) {
+      return false;
+    }
+    if (chosen.length === TICKET_SIZE) {
+      return satisfiesConstraints(
+        [...chosen].sort((a, b) => a - b),
+        c,
+      );
+    }
+    const needed = TICKET_SIZE - chosen.length;
+    for (let i = start; i <= candidates.length - needed; i += 1) {
+      chosen.push(candidates[i]);
+      if (search(i + 1)) {
+        return true;
+      }
+      chosen.pop();
+    }
+    return false;
+  };
+
+  if (slots < 0) {
+    return { status: "none" };
+  }
+  if (search(0)) {
+    return { status: "found", ticket: chosen.sort((a, b) => a - b) };
+  }
+  return budget < 0 ? { status: "exhausted" } : { status: "none" };
+}
+
+/**
+ * Per-group targets for balancedPick: undefined when no group is fixed, so
+ * the default spread applies. A partial or inconsistent spread is rejected.
+ */
+export function fixedGroupTargets(c: PickConstraints) {
+  if (c.groupCounts.every((n) => n === null)) {
+    return undefined;
+  }
+  const targets = c.groupCounts.map((n) => n ?? -1);
+  if (
+    targets.some((n, index) => n < 0 || n > GROUP_SIZES[index]) ||
+    targets.reduce((a, b) => a + b, 0) !== TICKET_SIZE
+  ) {
+    throw new UnsatisfiableConstraintsError([
+      `구간 밸런스는 다섯 구간의 개수를 모두 지정하고 합이 ${TICKET_SIZE}이어야 합니다.`,
+    ]);
+  }
+  return targets;
+}
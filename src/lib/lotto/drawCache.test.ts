@@ -0,0 +1,401 @@
+import { createServer, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import {
+  createDrawCache,
+  fetchDraw,
+  type DrawCacheOptions,
+  fetchRange,
+  findLatestDraw,
+  getReadyCache,
+  importDraws,
+} from "./drawCache";
+import { DhlotteryDrawSource, FixtureDrawSource } from "./drawSource";
+import { MemoryDrawStore } from "./drawStore";
+import { CircuitBreaker, TokenBucket } from "./resilience";
+import type { Draw } from "./types";
+
+type Reply = "success" | "malformed" | "fail" | "error" | "html" | "hang";
+
+const LATEST = 37;
+const TIMEOUT_MS = 200;
+
+/** Per-draw queue of scripted replies; unscripted requests answer normally. */
+const script = new Map<number, Reply[]>();
+const requests: number[] = [];
+const hanging: ServerResponse[] = [];
+
+function makeDraw(no: number): Draw {
+  const base = (no * 7) % 39;
+  return {
+    drwNo: no,
+    drwNoDate: "2024-01-06",
+    numbers: [1, 2, 3, 4, 5, 6].map((offset) => base + offset),
+    bonus: base + 7,
+    prize: {
+      firstPrize: 2_000_000_000 + no,
+      firstWinners: no % 3,
+      firstPrizeTotal: (2_000_000_000 + no) * (no % 3),
+      totalSales: 100_000_000_000 + no,
+    },
+  };
+}
+
+function dhlotteryJson(draw: Draw) {
+  return {
+    returnValue: "success",
+    drwNo: draw.drwNo,
+    drwNoDate: draw.drwNoDate,
+    drwtNo1: draw.numbers[0],
+    drwtNo2: draw.numbers[1],
+    drwtNo3: draw.numbers[2],
+    drwtNo4: draw.numbers[3],
+    drwtNo5: draw.numbers[4],
+    drwtNo6: draw.numbers[5],
+    bnusNo: draw.bonus,
+    firstWinamnt: draw.prize?.firstPrize,
+    firstPrzwnerCo: draw.prize?.firstWinners,
+    firstAccumamnt: draw.prize?.firstPrizeTotal,
+    totSellamnt: draw.prize?.totalSales,
+  };
+}
+
+const server = createServer((request, response) => {
+  const url = new URL(request.url ?? "/", "http://localhost");
+  const no = Number(url.searchParams.get("drwNo"));
+  requests.push(no);
+  const reply = script.get(no)?.shift() ?? (no <= LATEST ? "success" : "fail");
+  switch (reply) {
+    case "success":
+      response.setHeader("Content-Type", "application/json");
+      response.end(JSON.stringify(dhlotteryJson(makeDraw(no))));
+      return;
+    case "malformed":
+      response.setHeader("Content-Type", "application/json");
+      response.end(
+        JSON.stringify({ ...dhlotteryJson(makeDraw(no)), drwtNo2: 46 }),
+      );
+      return;
+    case "fail":
+      response.setHeader("Content-Type", "application/json");
+      response.end(JSON.stringify({ returnValue: "fail" }));
+      return;
+    case "error":
+      response.statusCode = 500;
+      response.end("upstream error");
+      return;
+    case "html":
+      response.setHeader("Content-Type", "text/html");
+      response.end("<html><body>서비스 점검 중</body></html>");
+      return;
+    case "hang":
+      hanging.push(response);
+      return;
+  }
+});
+
+let baseUrl = "";
+
+function source() {
+  return new DhlotteryDrawSource(
+    `${baseUrl}/common.do?method=getLottoNumber&drwNo=`,
+    TIMEOUT_MS,
+  );
+}
+
+/** getReadyCache plus the background fetch it starts on a cold cache. */
+async function loadedCache() {
+  const cache = await getReadyCache();
+  await cache.inFlight;
+  return cache;
+}
+
+/** A cache with a generous rate limit so tests are not paced. */
+function testCache(options: DrawCacheOptions = {}) {
+  return createDrawCache({
+    store: new MemoryDrawStore(),
+    source: source(),
+    limiter: new TokenBucket(1000, 1000),
+    ...options,
+  });
+}
+
+function requestCount(no: number) {
+  return requests.filter((item) => item === no).length;
+}
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  script.clear();
+  requests.length = 0;
+});
+
+afterEach(() => {
+  for (const response of hanging.splice(0)) {
+    response.destroy();
+  }
+  globalThis.__lottoCache = undefined;
+});
+
+describe("findLatestDraw", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("confirms the round expected from the date with two probes", async () => {
+    // The day after draw 37 (2003-08-16).
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2003-08-17T03:00:00Z"));
+    const cache = testCache();
+    expect(await findLatestDraw(cache)).toBe(LATEST);
+    expect(requests).toEqual([LATEST, LATEST + 1]);
+  });
+
+  it("accepts the previous round when the expected result is late", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2003-08-23T12:00:00Z"));
+    const cache = testCache();
+    expect(await findLatestDraw(cache)).toBe(LATEST);
+    expect(requests).toEqual([LATEST + 1, LATEST]);
+  });
+
+  it("searches down when the initial guess is in the future", async () => {
+    const cache = testCache();
+    expect(await findLatestDraw(cache)).toBe(LATEST);
+  });
+
+  it("falls back to doubling up from the cached latest draw", async () => {
+    const cache = testCache();
+    cache.latest = 5;
+    expect(await findLatestDraw(cache)).toBe(LATEST);
+    // After the two date-based probes, which miss today's round.
+    expect(requests[2]).toBe(5);
+  });
+
+  it("works against a fixture source", async () => {
+    const fixture = new FixtureDrawSource(
+      Array.from({ length: 12 }, (_, index) => makeDraw(index + 1)),
+    );
+    const cache = testCache({ source: fixture });
+    expect(await findLatestDraw(cache)).toBe(12);
+  });
+});
+
+describe("fetchRange", () => {
+  it("stores found draws and records the rest as missing", async () => {
+    const cache = testCache();
+    const missing: number[] = [];
+    await fetchRange(30, 40, cache, missing);
+    expect([...cache.draws.keys()].sort((a, b) => a - b)).toEqual([
+      30, 31, 32, 33, 34, 35, 36, 37,
+    ]);
+    expect(cache.draws.get(33)).toEqual(makeDraw(33));
+    expect(missing.sort((a, b) => a - b)).toEqual([38, 39, 40]);
+  });
+});
+
+describe("fetchDraw", () => {
+  it("retries transient server errors", async () => {
+    script.set(5, ["error", "error"]);
+    expect(await fetchDraw(testCache(), 5)).toEqual(makeDraw(5));
+    expect(requestCount(5)).toBe(3);
+  });
+
+  it("gives up after the retry budget and reports the draw as absent", async () => {
+    script.set(6, ["error", "error", "error"]);
+    expect(await fetchDraw(testCache(), 6)).toBeNull();
+    expect(requestCount(6)).toBe(3);
+  });
+
+  it("aborts responses that never arrive", async () => {
+    script.set(7, ["hang", "hang", "hang"]);
+    expect(await fetchDraw(testCache(), 7)).toBeNull();
+    expect(requestCount(7)).toBe(3);
+  });
+
+  it("rethrows HTML responses without retrying", async () => {
+    script.set(8, ["html"]);
+    await expect(fetchDraw(testCache(), 8)).rejects.toMatchObject({
+      name: "HtmlResponseError",
+    });
+    expect(requestCount(8)).toBe(1);
+  });
+});
+
+describe("getReadyCache", () => {
+  it("answers a cold start at once and loads every draw in the background", async () => {
+    const store = new MemoryDrawStore();
+    globalThis.__lottoCache = testCache({ store });
+    const cache = await getReadyCache();
+    expect(cache.draws.size).toBe(0);
+    expect(cache.inFlight).toBeDefined();
+    await cache.inFlight;
+    expect(cache.latest).toBe(LATEST);
+    expect(cache.draws.size).toBe(LATEST);
+    expect(cache.missing).toEqual([]);
+    expect((await store.load())?.draws).toHaveLength(LATEST);
+  });
+
+  it("backs off when upstream serves an HTML block page", async () => {
+    script.set(1100, ["html"]);
+    globalThis.__lottoCache = testCache();
+    const cache = await loadedCache();
+    expect(cache.breaker.snapshot().state).toBe("open");
+    expect(cache.breaker.snapshot().openUntil).toBeGreaterThan(Date.now());
+    expect(cache.draws.size).toBe(0);
+
+    const before = requests.length;
+    cache.updatedAt = 0;
+    await loadedCache();
+    expect(requests.length).toBe(before);
+  });
+
+  it("serves stale data immediately and refreshes in the background", async () => {
+    globalThis.__lottoCache = testCache();
+    const cache = await loadedCache();
+    cache.updatedAt = 1;
+
+    expect(await getReadyCache()).toBe(cache);
+    expect(cache.updatedAt).toBe(1);
+    expect(cache.inFlight).toBeDefined();
+    await cache.inFlight;
+    expect(cache.updatedAt).toBeGreaterThan(1);
+    expect(cache.draws.size).toBe(LATEST);
+  });
+});
+
+describe("circuit breaker", () => {
+  it("opens after repeated failures and lets one half-open probe through", async () => {
+    // Longer than any retry backoff, with jitter pinned to the full cooldown.
+    const breaker = new CircuitBreaker(
+      { failureThreshold: 2, baseCooldownMs: 1000, maxCooldownMs: 1000 },
+      () => 1,
+    );
+    const cache = testCache({ breaker });
+    script.set(9, ["error", "error"]);
+    await expect(fetchDraw(cache, 9)).rejects.toMatchObject({
+      name: "CircuitOpenError",
+    });
+    expect(requestCount(9)).toBe(2);
+
+    await new Promise((resolve) => setTimeout(resolve, 1050));
+    expect(breaker.snapshot()).toMatchObject({
+      state: "halfOpen",
+      openUntil: null,
+    });
+    expect(await fetchDraw(cache, 9)).toEqual(makeDraw(9));
+    expect(breaker.snapshot()).toMatchObject({ state: "closed", trips: 0 });
+  });
+});
+
+describe("draw validation", () => {
+  it("quarantines malformed draws and keeps them out of the cache", async () => {
+    script.set(4, ["malformed"]);
+    globalThis.__lottoCache = testCache();
+    const cache = await loadedCache();
+    expect(cache.draws.has(4)).toBe(false);
+    expect(cache.missing).toEqual([4]);
+    expect(cache.quarantine.get(4)?.problems).toEqual([
+      "numbers outside 1–45: 46",
+    ]);
+
+    cache.missingRetriedAt = 0;
+    await getReadyCache();
+    await cache.inFlight;
+    expect(cache.draws.get(4)).toEqual(makeDraw(4));
+    expect(cache.quarantine.size).toBe(0);
+  });
+});
+
+describe("importDraws", () => {
+  it("quarantines malformed draws instead of caching them", async () => {
+    globalThis.__lottoCache = testCache();
+    const bad = { ...makeDraw(3), bonus: makeDraw(3).numbers[0] };
+    const result = await importDraws([makeDraw(1), makeDraw(2), bad]);
+    expect(result).toMatchObject({ imported: 2, quarantined: [3], latest: 2 });
+    expect(globalThis.__lottoCache.draws.has(3)).toBe(false);
+    expect(globalThis.__lottoCache.quarantine.has(3)).toBe(true);
+  });
+
+  it("keeps a valid cached round instead of quarantining a bad import", async () => {
+    globalThis.__lottoCache = testCache();
+    await importDraws([makeDraw(1)]);
+    const bad = { ...makeDraw(1), bonus: makeDraw(1).numbers[0] };
+    expect(await importDraws([bad])).toMatchObject({
+      imported: 0,
+      skipped: [1],
+      quarantined: [],
+    });
+    expect(globalThis.__lottoCache.draws.get(1)).toEqual(makeDraw(1));
+    expect(globalThis.__lottoCache.quarantine.size).toBe(0);
+  });
+
+  it("waits for an in-flight refresh before importing", async () => {
+    globalThis.__lottoCache = testCache();
+    const cache = await loadedCache();
+    cache.updatedAt = 1;
+    await getReadyCache();
+    expect(cache.inFlight).toBeDefined();
+    await importDraws([makeDraw(1)]);
+    expect(cache.inFlight).toBeUndefined();
+    expect(cache.updatedAt).toBeGreaterThan(1);
+  });
+});
+
+describe("prize backfill", () => {
+  it("refetches cached draws stored without prize data", async () => {
+    const store = new MemoryDrawStore();
+    const draws = Array.from({ length: LATEST }, (_, index) => ({
+      ...makeDraw(index + 1),
+      prize: undefined,
+    }));
+    await store.save({
+      latest: LATEST,
+      updatedAt: Date.now(),
+      draws,
+      missing: [],
+    });
+    globalThis.__lottoCache = testCache({ store });
+
+    const cache = await getReadyCache();
+    expect(cache.draws.get(LATEST)?.prize).toBeUndefined();
+    await cache.inFlight;
+    expect(cache.draws.get(LATEST)).toEqual(makeDraw(LATEST));
+    expect(cache.draws.get(LATEST - 29)?.prize).toBeDefined();
+    expect(cache.draws.get(LATEST - 30)?.prize).toBeUndefined();
+  });
+});
+
+describe("missing draw retry queue", () => {
+  it("keeps unfetched draws queued and recovers them on a later request", async () => {
+    script.set(3, ["error", "error", "error"]);
+    globalThis.__lottoCache = testCache();
+    const cache = await loadedCache();
+    expect(cache.missing).toEqual([3]);
+    expect(cache.draws.has(3)).toBe(false);
+
+    cache.missingRetriedAt = 0;
+    await getReadyCache();
+    await cache.inFlight;
+    expect(cache.missing).toEqual([]);
+    expect(cache.draws.get(3)).toEqual(makeDraw(3));
+  });
+});
@@ -0,0 +1,603 @@
+import { expectedLatestDraw } from "./drawCalendar";
+import { createDrawSource, type DrawSource } from "./drawSource";
+import { createDrawStore, type DrawStore } from "./drawStore";
+import {
+  findDateAnomalies,
+  findGaps,
+  validateDraw,
+  type QuarantinedDraw,
+} from "./drawValidation";
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  TokenBucket,
+  backoffDelay,
+  type BreakerOptions,
+} from "./resilience";
+import { isStale, nextRefreshDelay } from "./schedule";
+import type { Draw } from "./types";
+
+export type DrawCache = {
+  updatedAt: number;
+  latest: number;
+  draws: Map<number, Draw>;
+  missing: number[];
+  /** Malformed draws kept out of `draws`; their rounds stay in `missing`. */
+  quarantine: Map<number, QuarantinedDraw>;
+  store: DrawStore;
+  source: DrawSource;
+  limiter: TokenBucket;
+  breaker: CircuitBreaker;
+  /** When the `missing` retry queue was last worked on. */
+  missingRetriedAt: number;
+  /** Rounds already refetched for prize data in this process. */
+  prizeBackfilled: Set<number>;
+  loaded?: Promise<void>;
+  inFlight?: Promise<DrawCache>;
+  /** Pending draw-time refresh; only set on the shared server cache. */
+  refreshTimer?: ReturnType<typeof setTimeout>;
+};
+
+const MAX_DRAW_GUESS = 10000;
+const CONCURRENCY = 6;
+const RETRIES = 2;
+const RETRY_BASE_MS = 250;
+const RETRY_MAX_MS = 4000;
+// Pacing for the upstream WAF: bursts of 6, then 4 requests per second.
+const RATE_BURST = 6;
+const RATE_PER_SECOND = 4;
+const BREAKER_OPTIONS: BreakerOptions = {
+  failureThreshold: 5,
+  baseCooldownMs: 1000 * 60 * 5,
+  maxCooldownMs: 1000 * 60 * 60 * 2,
+};
+const MISSING_RETRY_BATCH = 10;
+const MISSING_RETRY_INTERVAL_MS = 1000 * 60 * 10;
+const PRIZE_BACKFILL_BATCH = 30;
+
+declare global {
+  var __lottoCache: DrawCache | undefined;
+}
+
+export type DrawCacheOptions = {
+  store?: DrawStore;
+  source?: DrawSource;
+  limiter?: TokenBucket;
+  breaker?: CircuitBreaker;
+};
+
+export function createDrawCache(options: DrawCacheOptions = {}): DrawCache {
+  return {
+    updatedAt: 0,
+    latest: 0,
+    draws: new Map(),
+    missing: [],
+    quarantine: new Map(),
+    store: options.store ?? createDrawStore(),
+    source: options.source ?? createDrawSource(),
+    limiter: options.limiter ?? new TokenBucket(RATE_BURST, RATE_PER_SECOND),
+    breaker: options.breaker ?? new CircuitBreaker(BREAKER_OPTIONS),
+    missingRetriedAt: 0,
+    prizeBackfilled: new Set(),
+  };
+}
+
+function getCache(): DrawCache {
+  if (!globalThis.__lottoCache) {
+    globalThis.__lottoCache = createDrawCache();
+    scheduleRefresh(globalThis.__lottoCache);
+  }
+  return globalThis.__lottoCache;
+}
+
+function latestDrawDate(cache: DrawCache) {
+  return cache.draws.get(cache.latest)?.drwNoDate ?? null;
+}
+
+/**
+ * Keeps a timer armed for the next Saturday result time (and polls every few
+ * minutes while that result is late), so the first request after a draw
+ * already finds it cached. Set LOTTO_REFRESH_SCHEDULER=off to rely on
+ * request-driven refreshes alone, e.g. on serverless hosts.
+ */
+function scheduleRefresh(cache: DrawCache) {
+  if (process.env.LOTTO_REFRESH_SCHEDULER === "off") {
+    return;
+  }
+  clearTimeout(cache.refreshTimer);
+  const delay = nextRefreshDelay(latestDrawDate(cache), Date.now());
+  cache.refreshTimer = setTimeout(() => {
+    loadCache()
+      .then(updateCache)
+      .catch((error) => console.warn("Scheduled refresh failed", error))
+      .finally(() => scheduleRefresh(cache));
+  }, delay);
+  cache.refreshTimer.unref?.();
+}
+
+async function loadCache(): Promise<DrawCache> {
+  const cache = getCache();
+  if (!cache.loaded) {
+    cache.loaded = (async () => {
+      try {
+        const snapshot = await cache.store.load();
+        if (!snapshot) {
+          return;
+        }
+        const rejected: number[] = [];
+        for (const draw of snapshot.draws) {
+          if (acceptDraw(cache, draw.drwNo, draw)) {
+            cache.draws.set(draw.drwNo, draw);
+          } else {
+            rejected.push(draw.drwNo);
+          }
+        }
+        cache.latest = snapshot.latest;
+        cache.updatedAt = snapshot.updatedAt;
+        cache.missing = mergeMissing(snapshot.missing, rejected);
+      } catch (error) {
+        console.warn("Failed to load draw store", cache.store.kind, error);
+      }
+    })();
+  }
+  await cache.loaded;
+  return cache;
+}
+
+async function persistCache(cache: DrawCache) {
+  try {
+    await cache.store.save({
+      latest: cache.latest,
+      updatedAt: cache.updatedAt,
+      draws: [...cache.draws.values()].sort((a, b) => a.drwNo - b.drwNo),
+      missing: cache.missing,
+    });
+  } catch (error) {
+    console.warn("Failed to save draw store", cache.store.kind, error);
+  }
+}
+
+/**
+ * Validates a draw returned for round `no`. Bad draws are quarantined
+ * (replacing any earlier entry) and rejected; good ones clear the entry.
+ */
+function acceptDraw(cache: DrawCache, no: number, draw: Draw) {
+  const problems = validateDraw(draw, no);
+  if (problems.length === 0) {
+    cache.quarantine.delete(no);
+    return true;
+  }
+  console.warn("Quarantined malformed draw", no, problems);
+  cache.quarantine.set(no, {
+    drwNo: no,
+    draw,
+    problems,
+    quarantinedAt: new Date().toISOString(),
+  });
+  return false;
+}
+
+/** HTML block pages and an open breaker both mean "stop asking upstream". */
+function isUpstreamBlock(error: unknown) {
+  const name = (error as { name?: string }).name;
+  return name === "HtmlResponseError" || name === "CircuitOpenError";
+}
+
+/**
+ * Fetches one draw through the rate limiter and circuit breaker, retrying
+ * transient failures with jittered exponential backoff. Block responses trip
+ * the breaker and are rethrown; persistent failures and malformed draws
+ * resolve null like a missing draw.
+ */
+export async function fetchDraw(
+  cache: DrawCache,
+  no: number,
+): Promise<Draw | null> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= RETRIES; attempt += 1) {
+    if (!cache.breaker.tryAcquire()) {
+      throw new CircuitOpenError(cache.breaker.snapshot().openUntil);
+    }
+    await cache.limiter.take();
+    try {
+      const draw = await cache.source.fetchDraw(no);
+      cache.breaker.recordSuccess();
+      return draw && acceptDraw(cache, no, draw) ? draw : null;
+    } catch (error) {
+      if ((error as { name?: string }).name === "HtmlResponseError") {
+        cache.breaker.trip();
+        throw error;
+      }
+      cache.breaker.recordFailure();
+      lastError = error;
+      await new Promise((resolve) =>
+        setTimeout(resolve, backoffDelay(attempt, RETRY_BASE_MS, RETRY_MAX_MS)),
+      );
+    }
+  }
+  console.warn("Failed to fetch draw", no, lastError);
+  return null;
+}
+
+/**
+ * Finds the newest published draw: probes upward by doubling from the cached
+ * latest (or a guess), then binary-searches the found/not-found boundary.
+ */
+async function searchLatestDraw(cache: DrawCache): Promise<number> {
+  const probe = cache.latest > 0 ? cache.latest : 1100;
+  const draw = await fetchDraw(cache, probe);
+
+  if (!draw) {
+    let low = 1;
+    let high = probe;
+    while (low <= high) {
+      const mid = Math.floor((low + high) / 2);
+      const midDraw = await fetchDraw(cache, mid);
+      if (midDraw) {
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return Math.max(1, high);
+  }
+
+  let low = probe;
+  let high = Math.min(probe * 2, MAX_DRAW_GUESS);
+  while (high <= MAX_DRAW_GUESS) {
+    const highDraw = await fetchDraw(cache, high);
+    if (highDraw) {
+      low = high;
+      high = Math.min(high * 2, MAX_DRAW_GUESS);
+      if (low === MAX_DRAW_GUESS) {
+        return low;
+      }
+    } else {
+      break;
+    }
+  }
+
+  while (low + 1 < high) {
+    const mid = Math.floor((low + high) / 2);
+    const midDraw = await fetchDraw(cache, mid);
+    if (midDraw) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return low;
+}
+
+/**
+ * Finds the newest published draw. The round expected from today's date is
+ * confirmed with two probes (it exists and the next one does not, or it is
+ * late and the previous one exists); anything else falls back to searching.
+ */
+export async function findLatestDraw(cache: DrawCache): Promise<number> {
+  const expected = expectedLatestDraw(Date.now());
+  if (expected > 1) {
+    if (await fetchDraw(cache, expected)) {
+      if (!(await fetchDraw(cache, expected + 1))) {
+        return expected;
+      }
+    } else if (await fetchDraw(cache, expected - 1)) {
+      return expected - 1;
+    }
+  }
+  return searchLatestDraw(cache);
+}
+
+export async function fetchRange(
+  start: number,
+  end: number,
+  cache: DrawCache,
+  missing: number[],
+) {
+  let current = start;
+  const workers = Array.from({ length: CONCURRENCY }, async () => {
+    while (true) {
+      const no = current;
+      if (no > end) {
+        return;
+      }
+      current += 1;
+      let draw: Draw | null = null;
+      try {
+        draw = await fetchDraw(cache, no);
+      } catch (error) {
+        // Once blocked, the rest of the range goes to the retry queue.
+        if (!isUpstreamBlock(error)) {
+          throw error;
+        }
+      }
+      if (draw) {
+        cache.draws.set(no, draw);
+      } else {
+        missing.push(no);
+      }
+    }
+  });
+  await Promise.all(workers);
+}
+
+/** Runs `task` unless an update is already in flight, sharing its result. */
+async function runExclusive(
+  cache: DrawCache,
+  task: () => Promise<void>,
+): Promise<DrawCache> {
+  if (cache.inFlight) {
+    return cache.inFlight;
+  }
+  cache.inFlight = (async () => {
+    await task();
+    return cache;
+  })();
+  try {
+    return await cache.inFlight;
+  } finally {
+    cache.inFlight = undefined;
+  }
+}
+
+function mergeMissing(current: number[], added: number[]) {
+  return [...new Set([...current, ...added])].sort((a, b) => a - b);
+}
+
+/** Retries the oldest entries of the `missing` queue, a batch at a time. */
+async function retryMissing(cache: DrawCache) {
+  cache.missingRetriedAt = Date.now();
+  const batch = cache.missing.slice(0, MISSING_RETRY_BATCH);
+  if (batch.length === 0) {
+    return;
+  }
+  const recovered: number[] = [];
+  for (const no of batch) {
+    try {
+      const draw = await fetchDraw(cache, no);
+      if (draw) {
+        cache.draws.set(no, draw);
+        recovered.push(no);
+      }
+    } catch (error) {
+      if (isUpstreamBlock(error)) {
+        break;
+      }
+      throw error;
+    }
+  }
+  if (recovered.length > 0) {
+    cache.missing = cache.missing.filter((no) => !recovered.includes(no));
+    await persistCache(cache);
+  }
+}
+
+function prizeBackfillBatch(cache: DrawCache) {
+  return [...cache.draws.values()]
+    .filter((draw) => !draw.prize && !cache.prizeBackfilled.has(draw.drwNo))
+    .sort((a, b) => b.drwNo - a.drwNo)
+    .slice(0, PRIZE_BACKFILL_BATCH);
+}
+
+/**
+ * Refetches cached draws stored before prize data was captured, newest
+ * first. Each round is tried once per process, so sources that have no prize
+ * data (e.g. fixtures) are not asked forever.
+ */
+async function backfillPrizes(cache: DrawCache) {
+  let updated = false;
+  for (const { drwNo } of prizeBackfillBatch(cache)) {
+    cache.prizeBackfilled.add(drwNo);
+    try {
+      const draw = await fetchDraw(cache, drwNo);
+      if (draw?.prize) {
+        cache.draws.set(drwNo, draw);
+        updated = true;
+      }
+    } catch (error) {
+      if (isUpstreamBlock(error)) {
+        break;
+      }
+      throw error;
+    }
+  }
+  if (updated) {
+    await persistCache(cache);
+  }
+}
+
+function updateCache(cache: DrawCache): Promise<DrawCache> {
+  return runExclusive(cache, async () => {
+    if (cache.breaker.isOpen()) {
+      return;
+    }
+    await retryMissing(cache);
+
+    let latest: number;
+    try {
+      latest = await findLatestDraw(cache);
+    } catch (error) {
+      if (isUpstreamBlock(error)) {
+        return;
+      }
+      throw error;
+    }
+    const missing: number[] = [];
+    const start = cache.latest > 0 ? cache.latest + 1 : 1;
+    if (start <= latest) {
+      await fetchRange(start, latest, cache, missing);
+    }
+
+    cache.latest = latest;
+    cache.updatedAt = Date.now();
+    cache.missing = mergeMissing(cache.missing, missing);
+    await persistCache(cache);
+  });
+}
+
+function inBackground(cache: DrawCache, task: () => Promise<unknown>) {
+  task().catch((error) =>
+    console.warn("Background refresh failed", cache.source.kind, error),
+  );
+}
+
+/**
+ * Returns the shared draw cache without waiting for upstream: stale or empty
+ * data is served as-is while a refresh runs in the background, and draws that
+ * failed earlier or lack prize data are retried in small batches.
+ *
+ * At the paced upstream rate a cold start takes several minutes to fetch every
+ * draw, during which responses report no data. Seed new instances through the
+ * admin import (POST /api/lotto/admin/import) to skip that.
+ */
+export async function getReadyCache(): Promise<DrawCache> {
+  const cache = await loadCache();
+  const now = Date.now();
+  if (
+    cache.draws.size === 0 ||
+    isStale(cache.updatedAt, latestDrawDate(cache), now)
+  ) {
+    inBackground(cache, () => updateCache(cache));
+    return cache;
+  }
+  const retryDue = now - cache.missingRetriedAt >= MISSING_RETRY_INTERVAL_MS;
+  const pending =
+    cache.missing.length > 0 || prizeBackfillBatch(cache).length > 0;
+  if (pending && retryDue && !cache.breaker.isOpen()) {
+    inBackground(cache, () =>
+      runExclusive(cache, async () => {
+        await retryMissing(cache);
+        await backfillPrizes(cache);
+      }),
+    );
+  }
+  return cache;
+}
+
+/**
+ * Refreshes from upstream regardless of freshness (joining a refresh already
+ * in flight) and re-arms the scheduler. An open breaker still wins.
+ */
+export async function refreshNow(): Promise<DrawCache> {
+  const cache = await loadCache();
+  await updateCache(cache);
+  if (cache.refreshTimer) {
+    scheduleRefresh(cache);
+  }
+  return cache;
+}
+
+/**
+ * Breaker and retry-queue state for API responses. Kept free of per-request
+ * values such as the token count so cached responses keep a stable ETag.
+ */
+export function upstreamStatus(cache: DrawCache) {
+  return {
+    source: cache.source.kind,
+    breaker: cache.breaker.snapshot(),
+    retryQueue: cache.missing,
+    nextRetryAt:
+      cache.missing.length > 0
+        ? cache.missingRetriedAt + MISSING_RETRY_INTERVAL_MS
+        : null,
+  };
+}
+
+/**
+ * Integrity report for the health endpoint. Reads the cache as it is, without
+ * refreshing from upstream.
+ */
+export async function cacheHealth(now = Date.now()) {
+  const cache = await loadCache();
+  const gaps = findGaps(cache.draws, cache.latest);
+  const quarantined = [...cache.quarantine.values()].sort(
+    (a, b) => a.drwNo - b.drwNo,
+  );
+  const dateAnomalies = findDateAnomalies(cache.draws.values());
+  // The token count changes every request, so it only appears here, in a
+  // response that is never cached.
+  const upstream = {
+    ...upstreamStatus(cache),
+    tokensAvailable: cache.limiter.available(),
+  };
+  const stale = isStale(cache.updatedAt, latestDrawDate(cache), now);
+  const healthy =
+    gaps.length === 0 &&
+    quarantined.length === 0 &&
+    dateAnomalies.length === 0 &&
+    upstream.breaker.state === "closed" &&
+    !stale;
+  return {
+    status: cache.draws.size === 0 ? "empty" : healthy ? "ok" : "degraded",
+    latestDraw: cache.latest,
+    expectedLatestDraw: expectedLatestDraw(now),
+    totalDraws: cache.draws.size,
+    updatedAt: cache.updatedAt ? new Date(cache.updatedAt).toISOString() : null,
+    cacheAgeMs: cache.updatedAt ? now - cache.updatedAt : null,
+    stale,
+    refreshing: cache.inFlight !== undefined,
+    gaps,
+    quarantined,
+    dateAnomalies,
+    storage: cache.store.kind,
+    upstream,
+  };
+}
+
+/**
+ * Merges externally supplied draws (e.g. an admin import) into the cache and
+ * persists them. Draws failing validation are quarantined like fetched ones,
+ * or skipped when a valid draw for that round is already cached.
+ * Later refreshes then only fetch draws after the newest one.
+ */
+export async function importDraws(draws: Draw[]) {
+  const cache = await loadCache();
+  // Wait out any refresh, then hold the lock so the two never persist at once.
+  while (cache.inFlight) {
+    await cache.inFlight.catch(() => undefined);
+  }
+  let added = 0;
+  const accepted: Draw[] = [];
+  const quarantined: number[] = [];
+  const skipped: number[] = [];
+  await runExclusive(cache, async () => {
+    for (const draw of draws) {
+      // A bad record must not flag a round that is already cached correctly.
+      if (
+        cache.draws.has(draw.drwNo) &&
+        validateDraw(draw, draw.drwNo).length > 0
+      ) {
+        skipped.push(draw.drwNo);
+        continue;
+      }
+      if (!acceptDraw(cache, draw.drwNo, draw)) {
+        quarantined.push(draw.drwNo);
+        continue;
+      }
+      if (!cache.draws.has(draw.drwNo)) {
+        added += 1;
+      }
+      cache.draws.set(draw.drwNo, draw);
+      accepted.push(draw);
+    }
+    cache.latest = Math.max(
+      cache.latest,
+      ...accepted.map((draw) => draw.drwNo),
+    );
+    cache.missing = Array.from(
+      { length: cache.latest },
+      (_, i) => i + 1,
+    ).filter((no) => !cache.draws.has(no));
+    await persistCache(cache);
+  });
+  return {
+    imported: accepted.length,
+    added,
+    replaced: accepted.length - added,
+    quarantined,
+    skipped,
+    latest: cache.latest,
+    missing: cache.missing,
+  };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { drawDate, expectedLatestDraw } from "./drawCalendar";
+
+describe("drawDate", () => {
+  it("counts weekly Saturdays from draw 1", () => {
+    expect(drawDate(1)).toBe("2002-12-07");
+    expect(drawDate(2)).toBe("2002-12-14");
+    expect(drawDate(1100)).toBe("2023-12-30");
+  });
+
+  it("shifts later rounds past skipped Saturdays", () => {
+    const skipped = ["2002-12-21"];
+    expect(drawDate(2, skipped)).toBe("2002-12-14");
+    expect(drawDate(3, skipped)).toBe("2002-12-28");
+  });
+});
+
+describe("expectedLatestDraw", () => {
+  it("switches to the new round at 20:45 KST on Saturday", () => {
+    // 2023-12-30 20:44 and 20:45 KST.
+    expect(expectedLatestDraw(Date.parse("2023-12-30T11:44:00Z"))).toBe(1099);
+    expect(expectedLatestDraw(Date.parse("2023-12-30T11:45:00Z"))).toBe(1100);
+  });
+
+  it("uses the Korean calendar day, not UTC", () => {
+    // Sunday 2023-12-31 08:00 KST is still Saturday in UTC.
+    expect(expectedLatestDraw(Date.parse("2023-12-30T23:00:00Z"))).toBe(1100);
+    // Friday 2024-01-05 23:30 UTC is already Saturday morning in Korea.
+    expect(expectedLatestDraw(Date.parse("2024-01-05T23:30:00Z"))).toBe(1100);
+  });
+
+  it("does not count skipped weeks", () => {
+    const now = Date.parse("2003-01-04T12:00:00Z");
+    expect(expectedLatestDraw(now)).toBe(5);
+    expect(expectedLatestDraw(now, ["2002-12-21"])).toBe(4);
+  });
+
+  it("is zero before the first draw", () => {
+    expect(expectedLatestDraw(Date.parse("2002-12-07T11:00:00Z"))).toBe(0);
+  });
+});
@@ -0,0 +1,57 @@
+import { kstDateString, latestResultTime } from "./schedule";
+
+const WEEK_MS = 1000 * 60 * 60 * 24 * 7;
+/** Draw 1 was held on Saturday 2002-12-07; results at 20:45 KST. */
+export const FIRST_DRAW_DATE = "2002-12-07";
+const FIRST_RESULT_TIME = Date.parse(`${FIRST_DRAW_DATE}T11:45:00Z`);
+
+/**
+ * Saturdays (KST, YYYY-MM-DD) on which no draw was held. None so far: draws
+ * have run every week since draw 1, but a skipped week shifts every later
+ * round by one, so it has to be listed here.
+ */
+export const SKIPPED_DRAW_DATES: readonly string[] = [];
+
+function weekIndex(date: string) {
+  return Math.round(
+    (Date.parse(`${date}T11:45:00Z`) - FIRST_RESULT_TIME) / WEEK_MS,
+  );
+}
+
+function skippedWeeks(skipped: readonly string[]) {
+  return skipped.map(weekIndex).sort((a, b) => a - b);
+}
+
+/** Scheduled KST date of draw `no`. */
+export function drawDate(
+  no: number,
+  skipped: readonly string[] = SKIPPED_DRAW_DATES,
+) {
+  let week = no - 1;
+  for (const skippedWeek of skippedWeeks(skipped)) {
+    if (skippedWeek <= week) {
+      week += 1;
+    }
+  }
+  return kstDateString(FIRST_RESULT_TIME + week * WEEK_MS);
+}
+
+/**
+ * The round whose result should be published by `now` (epoch ms), counting
+ * Saturdays since draw 1 minus skipped weeks; 0 before the first draw.
+ */
+export function expectedLatestDraw(
+  now: number,
+  skipped: readonly string[] = SKIPPED_DRAW_DATES,
+) {
+  if (now < FIRST_RESULT_TIME) {
+    return 0;
+  }
+  const week = Math.round(
+    (latestResultTime(now) - FIRST_RESULT_TIME) / WEEK_MS,
+  );
+  const skippedSoFar = skippedWeeks(skipped).filter(
+    (skippedWeek) => skippedWeek <= week,
+  ).length;
+  return week + 1 - skippedSoFar;
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { parseDrawsJson } from "./drawRecords";
+
+const DRAW = {
+  drwNo: 1100,
+  drwNoDate: "2023-12-30",
+  numbers: [17, 26, 29, 30, 31, 43],
+  bonus: 12,
+};
+
+describe("parseDrawsJson", () => {
+  it("parses the export shape", () => {
+    expect(parseDrawsJson({ draws: [DRAW] })).toEqual([DRAW]);
+  });
+
+  it("does not depend on today's date", () => {
+    // Fixtures may hold synthetic rounds; the import route bounds drwNo.
+    expect(parseDrawsJson([{ ...DRAW, drwNo: 20231230 }])[0].drwNo).toBe(
+      20231230,
+    );
+  });
+
+  it("rejects malformed draws", () => {
+    expect(() => parseDrawsJson([{ ...DRAW, bonus: 17 }])).toThrow(
+      expect.objectContaining({ name: "DrawImportError" }),
+    );
+  });
+});
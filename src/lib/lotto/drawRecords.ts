@@ -0,0 +1,153 @@
+import { parseCsv, type CsvCell } from "./csv";
+import type { Draw, DrawPrize } from "./types";
+
+export const DRAW_CSV_HEADER = [
+  "drwNo",
+  "drwNoDate",
+  "n1",
+  "n2",
+  "n3",
+  "n4",
+  "n5",
+  "n6",
+  "bonus",
+];
+
+/** Optional trailing columns; left empty for draws without prize data. */
+export const PRIZE_CSV_COLUMNS: (keyof DrawPrize)[] = [
+  "firstPrize",
+  "firstWinners",
+  "firstPrizeTotal",
+  "totalSales",
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class DrawImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DrawImportError";
+  }
+}
+
+export function drawsToRows(draws: Draw[]): CsvCell[][] {
+  return [
+    [...DRAW_CSV_HEADER, ...PRIZE_CSV_COLUMNS],
+    ...draws.map((draw) => [
+      draw.drwNo,
+      draw.drwNoDate,
+      ...draw.numbers,
+      draw.bonus,
+      ...PRIZE_CSV_COLUMNS.map((column) => draw.prize?.[column]),
+    ]),
+  ];
+}
+
+/** All prize values blank means "no prize data"; otherwise all must be valid. */
+function toPrize(values: unknown[], where: string): DrawPrize | undefined {
+  const blank = (value: unknown) =>
+    value === undefined || value === null || value === "";
+  if (values.every(blank)) {
+    return undefined;
+  }
+  const amounts = values.map(Number);
+  if (
+    values.some(blank) ||
+    amounts.some((value) => !Number.isFinite(value) || value < 0)
+  ) {
+    throw new DrawImportError(
+      `${where}: ${PRIZE_CSV_COLUMNS.join(", ")} must all be non-negative numbers or all be empty`,
+    );
+  }
+  const [firstPrize, firstWinners, firstPrizeTotal, totalSales] = amounts;
+  return { firstPrize, firstWinners, firstPrizeTotal, totalSales };
+}
+
+function toDraw(
+  drwNo: unknown,
+  drwNoDate: unknown,
+  numbers: unknown[],
+  bonus: unknown,
+  prizeValues: unknown[],
+  where: string,
+): Draw {
+  const values = [...numbers, bonus].map(Number);
+  if (!Number.isInteger(Number(drwNo)) || Number(drwNo) < 1) {
+    throw new DrawImportError(`${where}: drwNo must be a positive integer`);
+  }
+  if (typeof drwNoDate !== "string" || !DATE_PATTERN.test(drwNoDate)) {
+    throw new DrawImportError(`${where}: drwNoDate must be YYYY-MM-DD`);
+  }
+  if (
+    numbers.length !== 6 ||
+    values.some((num) => !Number.isInteger(num) || num < 1 || num > 45) ||
+    new Set(values).size !== 7
+  ) {
+    throw new DrawImportError(
+      `${where}: expected six distinct numbers and a different bonus, all 1–45`,
+    );
+  }
+  const prize = toPrize(prizeValues, where);
+  return {
+    drwNo: Number(drwNo),
+    drwNoDate,
+    numbers: values.slice(0, 6).sort((a, b) => a - b),
+    bonus: values[6],
+    ...(prize ? { prize } : {}),
+  };
+}
+
+/**
+ * Accepts the draws export: a header row (DRAW_CSV_HEADER, optionally
+ * followed by PRIZE_CSV_COLUMNS) then one draw per line.
+ */
+export function parseDrawsCsv(text: string): Draw[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+  const columns = header.map((name) => name.trim());
+  const index = DRAW_CSV_HEADER.map((name) => columns.indexOf(name));
+  if (index.some((position) => position < 0)) {
+    throw new DrawImportError(
+      `CSV header must contain ${DRAW_CSV_HEADER.join(",")}`,
+    );
+  }
+  const prizeIndex = PRIZE_CSV_COLUMNS.map((name) => columns.indexOf(name));
+  return rows.map((row, rowIndex) => {
+    const cell = (position: number) => row[index[position]]?.trim();
+    return toDraw(
+      cell(0),
+      cell(1),
+      [2, 3, 4, 5, 6, 7].map(cell),
+      cell(8),
+      prizeIndex.map((position) =>
+        position < 0 ? undefined : row[position]?.trim(),
+      ),
+      `row ${rowIndex + 2}`,
+    );
+  });
+}
+
+/** Accepts a Draw[] or the `{ draws: Draw[] }` shape of the JSON export. */
+export function parseDrawsJson(value: unknown): Draw[] {
+  const list = Array.isArray(value)
+    ? value
+    : (value as { draws?: unknown } | null)?.draws;
+  if (!Array.isArray(list)) {
+    throw new DrawImportError("JSON must be a draw array or { draws: [...] }");
+  }
+  return list.map((item, itemIndex) => {
+    const draw = (item ?? {}) as Partial<Record<keyof Draw, unknown>>;
+    return toDraw(
+      draw.drwNo,
+      draw.drwNoDate,
+      Array.isArray(draw.numbers) ? draw.numbers : [],
+      draw.bonus,
+      PRIZE_CSV_COLUMNS.map(
+        (column) => (draw.prize as Partial<DrawPrize> | undefined)?.[column],
+      ),
+      `draws[${itemIndex}]`,
+    );
+  });
+}
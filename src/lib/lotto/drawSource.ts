@@ -0,0 +1,164 @@
+import { readFile } from "node:fs/promises";
+import { parseDrawsCsv, parseDrawsJson } from "./drawRecords";
+import type { Draw, DrawPrize } from "./types";
+
+/** Where draws come from; the cache handles retries and range fetching. */
+export interface DrawSource {
+  readonly kind: string;
+  /** Resolves null when the draw does not exist (yet). */
+  fetchDraw(no: number): Promise<Draw | null>;
+}
+
+/** Upstream answered with an HTML page (maintenance or bot block). */
+export class HtmlResponseError extends Error {
+  constructor() {
+    super("HTML response");
+    this.name = "HtmlResponseError";
+  }
+}
+
+/** The draw number is appended to this prefix. */
+export const DHLOTTERY_API_BASE =
+  "https://www.dhlottery.co.kr/common.do?method=getLottoNumber&drwNo=";
+const DEFAULT_TIMEOUT_MS = 8000;
+
+function amount(value: unknown) {
+  const present =
+    typeof value === "number" ||
+    (typeof value === "string" && value.trim() !== "");
+  const parsed = present ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+/** Prize fields are optional upstream; a missing or bad one drops them all. */
+function parsePrize(data: Record<string, unknown>): DrawPrize | undefined {
+  const firstPrize = amount(data.firstWinamnt);
+  const firstWinners = amount(data.firstPrzwnerCo);
+  const firstPrizeTotal = amount(data.firstAccumamnt);
+  const totalSales = amount(data.totSellamnt);
+  if (
+    firstPrize === null ||
+    firstWinners === null ||
+    firstPrizeTotal === null ||
+    totalSales === null
+  ) {
+    return undefined;
+  }
+  return { firstPrize, firstWinners, firstPrizeTotal, totalSales };
+}
+
+async function fetchJson(url: string, timeoutMs: number) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      headers: {
+        Accept: "application/json,text/plain;q=0.9,*/*;q=0.8",
+        "User-Agent":
+          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+      },
+    });
+    const contentType = response.headers.get("content-type") ?? "";
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const raw = await response.text();
+    const trimmed = raw.trim();
+    if (trimmed.startsWith("<")) {
+      throw new HtmlResponseError();
+    }
+    if (contentType.includes("application/json")) {
+      return JSON.parse(raw) as Record<string, unknown>;
+    }
+    try {
+      return JSON.parse(raw) as Record<string, unknown>;
+    } catch {
+      throw new Error("Non-JSON response");
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Reads the dhlottery `getLottoNumber` JSON shape (`drwtNo1..6`, `bnusNo`). */
+export class DhlotteryDrawSource implements DrawSource {
+  readonly kind = "dhlottery";
+
+  constructor(
+    private readonly baseUrl = DHLOTTERY_API_BASE,
+    private readonly timeoutMs = DEFAULT_TIMEOUT_MS,
+  ) {}
+
+  async fetchDraw(no: number): Promise<Draw | null> {
+    const data = await fetchJson(`${this.baseUrl}${no}`, this.timeoutMs);
+    if (data.returnValue !== "success") {
+      return null;
+    }
+    const numbers = [
+      Number(data.drwtNo1),
+      Number(data.drwtNo2),
+      Number(data.drwtNo3),
+      Number(data.drwtNo4),
+      Number(data.drwtNo5),
+      Number(data.drwtNo6),
+    ];
+    const bonus = Number(data.bnusNo);
+    if (numbers.some((n) => Number.isNaN(n)) || Number.isNaN(bonus)) {
+      return null;
+    }
+    const prize = parsePrize(data);
+    return {
+      drwNo: Number(data.drwNo),
+      drwNoDate: String(data.drwNoDate),
+      numbers,
+      bonus,
+      ...(prize ? { prize } : {}),
+    };
+  }
+}
+
+/**
+ * Serves draws from memory or from a CSV/JSON file in the export format;
+ * useful offline, in tests, and for demo deployments.
+ */
+export class FixtureDrawSource implements DrawSource {
+  readonly kind = "fixture";
+  private draws: Promise<Map<number, Draw>> | null = null;
+
+  constructor(private readonly source: string | Draw[]) {}
+
+  private load() {
+    if (!this.draws) {
+      this.draws = (async () => {
+        let list: Draw[];
+        if (typeof this.source !== "string") {
+          list = this.source;
+        } else {
+          const text = await readFile(this.source, "utf8");
+          list = this.source.endsWith(".csv")
+            ? parseDrawsCsv(text)
+            : parseDrawsJson(JSON.parse(text));
+        }
+        return new Map(list.map((draw) => [draw.drwNo, draw]));
+      })();
+    }
+    return this.draws;
+  }
+
+  async fetchDraw(no: number) {
+    return (await this.load()).get(no) ?? null;
+  }
+}
+
+export function createDrawSource(): DrawSource {
+  const kind = process.env.LOTTO_DRAW_SOURCE ?? "dhlottery";
+  if (kind === "fixture") {
+    const file = process.env.LOTTO_FIXTURE_FILE;
+    if (!file) {
+      throw new Error("LOTTO_DRAW_SOURCE=fixture needs LOTTO_FIXTURE_FILE");
+    }
+    return new FixtureDrawSource(file);
+  }
+  return new DhlotteryDrawSource(process.env.LOTTO_API_BASE || undefined);
+}
@@ -0,0 +1,111 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { Draw } from "./types";
+
+export type DrawSnapshot = {
+  latest: number;
+  updatedAt: number;
+  draws: Draw[];
+  missing: number[];
+};
+
+export interface DrawStore {
+  readonly kind: string;
+  load(): Promise<DrawSnapshot | null>;
+  save(snapshot: DrawSnapshot): Promise<void>;
+}
+
+// Bump when the on-disk shape changes and add a step to migrateSnapshot.
+export const DRAW_STORE_SCHEMA_VERSION = 1;
+
+type StoredFile = DrawSnapshot & { schemaVersion: number };
+
+const DEFAULT_DATA_DIR = path.join(process.cwd(), ".data");
+const STORE_FILE_NAME = "draws.json";
+
+export class MemoryDrawStore implements DrawStore {
+  readonly kind = "memory";
+  private snapshot: DrawSnapshot | null = null;
+
+  async load() {
+    return this.snapshot;
+  }
+
+  async save(snapshot: DrawSnapshot) {
+    this.snapshot = {
+      ...snapshot,
+      draws: [...snapshot.draws],
+      missing: [...snapshot.missing],
+    };
+  }
+}
+
+function migrateSnapshot(raw: unknown): DrawSnapshot | null {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+  const stored = raw as Partial<StoredFile>;
+  if (stored.schemaVersion !== DRAW_STORE_SCHEMA_VERSION) {
+    console.warn(
+      "Ignoring draw store with unsupported schema version",
+      stored.schemaVersion,
+    );
+    return null;
+  }
+  if (!Array.isArray(stored.draws)) {
+    return null;
+  }
+  return {
+    latest: Number(stored.latest) || 0,
+    updatedAt: Number(stored.updatedAt) || 0,
+    draws: stored.draws,
+    missing: Array.isArray(stored.missing) ? stored.missing : [],
+  };
+}
+
+export class FileDrawStore implements DrawStore {
+  readonly kind = "file";
+  readonly filePath: string;
+
+  constructor(dataDir = DEFAULT_DATA_DIR) {
+    this.filePath = path.join(dataDir, STORE_FILE_NAME);
+  }
+
+  async load() {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+    try {
+      return migrateSnapshot(JSON.parse(raw));
+    } catch (error) {
+      console.warn("Corrupt draw store, starting empty", this.filePath, error);
+      return null;
+    }
+  }
+
+  async save(snapshot: DrawSnapshot) {
+    const stored: StoredFile = {
+      schemaVersion: DRAW_STORE_SCHEMA_VERSION,
+      ...snapshot,
+    };
+    // Write to a temp file first so a crash never leaves a half-written store.
+    const tmpPath = `${this.filePath}.tmp`;
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    await writeFile(tmpPath, JSON.stringify(stored), "utf8");
+    await rename(tmpPath, this.filePath);
+  }
+}
+
+export function createDrawStore(): DrawStore {
+  const kind = process.env.LOTTO_DRAW_STORE ?? "file";
+  if (kind === "memory") {
+    return new MemoryDrawStore();
+  }
+  return new FileDrawStore(process.env.LOTTO_DATA_DIR || undefined);
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { findDateAnomalies, findGaps, validateDraw } from "./drawValidation";
+import type { Draw } from "./types";
+
+const DRAW: Draw = {
+  drwNo: 1100,
+  drwNoDate: "2023-12-30",
+  numbers: [17, 26, 29, 30, 31, 43],
+  bonus: 12,
+};
+
+describe("validateDraw", () => {
+  it("accepts a well-formed draw", () => {
+    expect(validateDraw(DRAW, 1100)).toEqual([]);
+  });
+
+  it("reports every problem it finds", () => {
+    const draw = { ...DRAW, drwNo: 1099, numbers: [0, 17, 17, 30, 31, 46] };
+    expect(validateDraw({ ...draw, bonus: 17 }, 1100)).toEqual([
+      "drwNo 1099 does not match requested 1100",
+      "numbers outside 1–45: 0, 46",
+      "duplicate main numbers",
+      "bonus 17 repeats a main number",
+    ]);
+  });
+
+  it("rejects short draws and malformed dates", () => {
+    expect(
+      validateDraw({ ...DRAW, drwNoDate: "20231230", numbers: [1, 2] }, 1100),
+    ).toEqual([
+      'drwNoDate "20231230" is not YYYY-MM-DD',
+      "expected 6 numbers, got 2",
+    ]);
+  });
+});
+
+describe("findDateAnomalies", () => {
+  it("flags dates that go backwards or miss the weekly schedule", () => {
+    const draws = [
+      { ...DRAW, drwNo: 1, drwNoDate: "2002-12-07" },
+      { ...DRAW, drwNo: 2, drwNoDate: "2002-12-14" },
+      { ...DRAW, drwNo: 3, drwNoDate: "2002-12-14" },
+      { ...DRAW, drwNo: 5, drwNoDate: "2003-01-05" },
+    ];
+    expect(findDateAnomalies(draws)).toEqual([
+      {
+        drwNo: 3,
+        drwNoDate: "2002-12-14",
+        kind: "notMonotonic",
+        expected: "after 2002-12-14",
+      },
+      {
+        drwNo: 5,
+        drwNoDate: "2003-01-05",
+        kind: "offSchedule",
+        expected: "2003-01-04",
+      },
+    ]);
+  });
+});
+
+describe("findGaps", () => {
+  it("collapses absent rounds into ranges", () => {
+    const draws = new Map(
+      [1, 4, 5, 7].map((no) => [no, { ...DRAW, drwNo: no }]),
+    );
+    expect(findGaps(draws, 9)).toEqual([
+      [2, 3],
+      [6, 6],
+      [8, 9],
+    ]);
+  });
+});
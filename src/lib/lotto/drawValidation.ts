@@ -0,0 +1,112 @@
+import { drawDate } from "./drawCalendar";
+import { TICKET_SIZE } from "./prize";
+import type { Draw } from "./types";
+
+const MIN_NUMBER = 1;
+const MAX_NUMBER = 45;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** A draw held back from the cache because it failed validation. */
+export type QuarantinedDraw = {
+  drwNo: number;
+  draw: Draw;
+  problems: string[];
+  quarantinedAt: string;
+};
+
+export type DateAnomaly = {
+  drwNo: number;
+  drwNoDate: string;
+  /** "notMonotonic": not after the previous cached draw; "offSchedule": not the expected Saturday. */
+  kind: "notMonotonic" | "offSchedule";
+  expected: string;
+};
+
+function isBall(value: number) {
+  return Number.isInteger(value) && value >= MIN_NUMBER && value <= MAX_NUMBER;
+}
+
+/**
+ * Lists what is wrong with a draw returned for round `requestedNo`; an empty
+ * list means it is safe to count. Dates are only checked for shape here, see
+ * findDateAnomalies for the schedule.
+ */
+export function validateDraw(draw: Draw, requestedNo: number) {
+  const problems: string[] = [];
+  if (draw.drwNo !== requestedNo) {
+    problems.push(
+      `drwNo ${draw.drwNo} does not match requested ${requestedNo}`,
+    );
+  }
+  if (!DATE_PATTERN.test(draw.drwNoDate)) {
+    problems.push(`drwNoDate "${draw.drwNoDate}" is not YYYY-MM-DD`);
+  }
+  if (draw.numbers.length !== TICKET_SIZE) {
+    problems.push(
+      `expected ${TICKET_SIZE} numbers, got ${draw.numbers.length}`,
+    );
+  }
+  const outOfRange = [...draw.numbers, draw.bonus].filter(
+    (num) => !isBall(num),
+  );
+  if (outOfRange.length > 0) {
+    problems.push(
+      `numbers outside ${MIN_NUMBER}–${MAX_NUMBER}: ${outOfRange.join(", ")}`,
+    );
+  }
+  if (new Set(draw.numbers).size !== draw.numbers.length) {
+    problems.push("duplicate main numbers");
+  }
+  if (draw.numbers.includes(draw.bonus)) {
+    problems.push(`bonus ${draw.bonus} repeats a main number`);
+  }
+  return problems;
+}
+
+/**
+ * Checks that draw dates increase with the round number and land on the
+ * Saturday the draw calendar expects for each round.
+ */
+export function findDateAnomalies(draws: Iterable<Draw>) {
+  const sorted = [...draws].sort((a, b) => a.drwNo - b.drwNo);
+  const anomalies: DateAnomaly[] = [];
+  sorted.forEach((draw, index) => {
+    const previous = sorted[index - 1];
+    if (previous && draw.drwNoDate <= previous.drwNoDate) {
+      anomalies.push({
+        drwNo: draw.drwNo,
+        drwNoDate: draw.drwNoDate,
+        kind: "notMonotonic",
+        expected: `after ${previous.drwNoDate}`,
+      });
+      return;
+    }
+    const scheduled = drawDate(draw.drwNo);
+    if (draw.drwNoDate !== scheduled) {
+      anomalies.push({
+        drwNo: draw.drwNo,
+        drwNoDate: draw.drwNoDate,
+        kind: "offSchedule",
+        expected: scheduled,
+      });
+    }
+  });
+  return anomalies;
+}
+
+/** Rounds 1..latest absent from `draws`, collapsed into [from, to] ranges. */
+export function findGaps(draws: Map<number, Draw>, latest: number) {
+  const gaps: [number, number][] = [];
+  for (let no = 1; no <= latest; no += 1) {
+    if (draws.has(no)) {
+      continue;
+    }
+    const last = gaps[gaps.length - 1];
+    if (last && last[1] === no - 1) {
+      last[1] = no;
+    } else {
+      gaps.push([no, no]);
+    }
+  }
+  return gaps;
+}
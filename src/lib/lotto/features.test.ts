@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildFeatureHistograms,
+  extractFeatures,
+  featurePercentiles,
+  percentileOf,
+} from "./features";
+import type { Draw } from "./types";
+
+function draw(drwNo: number, numbers: number[]): Draw {
+  return { drwNo, drwNoDate: "2024-01-06", numbers, bonus: 45 };
+}
+
+const DRAWS = [
+  draw(1, [1, 2, 3, 4, 5, 6]),
+  draw(2, [1, 2, 4, 8, 16, 32]),
+  draw(3, [1, 2, 3, 4, 5, 6]),
+];
+
+describe("extractFeatures", () => {
+  it("describes an unsorted ticket", () => {
+    expect(extractFeatures([45, 10, 3, 23, 2, 1])).toEqual({
+      sum: 84,
+      oddCount: 4,
+      highCount: 2,
+      groupCounts: [4, 0, 1, 0, 1],
+      consecutivePairs: 2,
+      lastDigitSpread: 5,
+      acValue: 8,
+    });
+  });
+
+  it("spans the AC value range", () => {
+    expect(extractFeatures([1, 2, 3, 4, 5, 6]).acValue).toBe(0);
+    expect(extractFeatures([1, 2, 4, 8, 16, 32]).acValue).toBe(10);
+  });
+});
+
+describe("buildFeatureHistograms", () => {
+  it("bins each feature over the draws", () => {
+    const histograms = buildFeatureHistograms(DRAWS);
+    expect(histograms.acValue).toEqual({
+      bins: [
+        { value: 0, count: 2 },
+        { value: 10, count: 1 },
+      ],
+      total: 3,
+      mean: 10 / 3,
+    });
+    expect(histograms.groups[0].bins).toEqual([
+      { value: 4, count: 1 },
+      { value: 6, count: 2 },
+    ]);
+  });
+});
+
+describe("percentileOf", () => {
+  const histogram = buildFeatureHistograms(DRAWS).acValue;
+
+  it("counts ties as half", () => {
+    expect(percentileOf(histogram, 0)).toBeCloseTo(100 / 3, 9);
+    expect(percentileOf(histogram, 5)).toBeCloseTo(200 / 3, 9);
+    expect(percentileOf(histogram, 10)).toBeCloseTo(250 / 3, 9);
+  });
+
+  it("has no percentile without draws", () => {
+    expect(percentileOf(buildFeatureHistograms([]).sum, 138)).toBeNull();
+    expect(
+      featurePercentiles([1, 2, 3, 4, 5, 6], buildFeatureHistograms([])).every(
+        (item) => item.percentile === null,
+      ),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,139 @@
+import { GROUP_LABELS, HIGH_START, groupIndex } from "./constraints";
+import type { Draw } from "./types";
+
+export type TicketFeatures = {
+  sum: number;
+  oddCount: number;
+  /** Numbers from HIGH_START up; low count is 6 minus this. */
+  highCount: number;
+  /** Numbers per GROUP_LABELS band. */
+  groupCounts: number[];
+  /** Adjacent pairs like 7–8 (a run of three counts as two). */
+  consecutivePairs: number;
+  /** Distinct last digits (0–9) among the six numbers. */
+  lastDigitSpread: number;
+  /** Arithmetic complexity: distinct pairwise differences minus 5. */
+  acValue: number;
+};
+
+export type ScalarFeature = Exclude<keyof TicketFeatures, "groupCounts">;
+
+export const SCALAR_FEATURES: ScalarFeature[] = [
+  "sum",
+  "oddCount",
+  "highCount",
+  "consecutivePairs",
+  "lastDigitSpread",
+  "acValue",
+];
+
+export type Histogram = {
+  /** Ascending by value; values never seen are omitted. */
+  bins: { value: number; count: number }[];
+  total: number;
+  mean: number | null;
+};
+
+export type FeatureHistograms = Record<ScalarFeature, Histogram> & {
+  /** One histogram per GROUP_LABELS band of how many numbers land in it. */
+  groups: Histogram[];
+};
+
+export type FeaturePercentile = {
+  feature: ScalarFeature;
+  value: number;
+  /** Share of past draws below this value, counting ties as half (0–100). */
+  percentile: number | null;
+};
+
+export function extractFeatures(numbers: number[]): TicketFeatures {
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const groupCounts = GROUP_LABELS.map(() => 0);
+  for (const num of sorted) {
+    groupCounts[groupIndex(num)] += 1;
+  }
+  let consecutivePairs = 0;
+  for (let i = 1; i < sorted.length; i += 1) {
+    if (sorted[i] === sorted[i - 1] + 1) {
+      consecutivePairs += 1;
+    }
+  }
+  const differences = new Set<number>();
+  for (let i = 0; i < sorted.length; i += 1) {
+    for (let j = i + 1; j < sorted.length; j += 1) {
+      differences.add(sorted[j] - sorted[i]);
+    }
+  }
+  return {
+    sum: sorted.reduce((sum, num) => sum + num, 0),
+    oddCount: sorted.filter((num) => num % 2 === 1).length,
+    highCount: sorted.filter((num) => num >= HIGH_START).length,
+    groupCounts,
+    consecutivePairs,
+    lastDigitSpread: new Set(sorted.map((num) => num % 10)).size,
+    acValue: differences.size - (sorted.length - 1),
+  };
+}
+
+function toHistogram(values: number[]): Histogram {
+  const counts = new Map<number, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return {
+    bins: [...counts]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => a.value - b.value),
+    total: values.length,
+    mean: values.length
+      ? values.reduce((sum, value) => sum + value, 0) / values.length
+      : null,
+  };
+}
+
+/** Histograms of every feature over the main numbers of `draws`. */
+export function buildFeatureHistograms(
+  draws: Iterable<Draw>,
+): FeatureHistograms {
+  const features = [...draws].map((draw) => extractFeatures(draw.numbers));
+  const scalar = Object.fromEntries(
+    SCALAR_FEATURES.map((feature) => [
+      feature,
+      toHistogram(features.map((item) => item[feature])),
+    ]),
+  ) as Record<ScalarFeature, Histogram>;
+  return {
+    ...scalar,
+    groups: GROUP_LABELS.map((_, index) =>
+      toHistogram(features.map((item) => item.groupCounts[index])),
+    ),
+  };
+}
+
+export function percentileOf(histogram: Histogram, value: number) {
+  if (histogram.total === 0) {
+    return null;
+  }
+  let below = 0;
+  let equal = 0;
+  for (const bin of histogram.bins) {
+    if (bin.value < value) {
+      below += bin.count;
+    } else if (bin.value === value) {
+      equal = bin.count;
+    }
+  }
+  return ((below + equal / 2) / histogram.total) * 100;
+}
+
+export function featurePercentiles(
+  ticket: number[],
+  histograms: FeatureHistograms,
+): FeaturePercentile[] {
+  const features = extractFeatures(ticket);
+  return SCALAR_FEATURES.map((feature) => ({
+    feature,
+    value: features[feature],
+    percentile: percentileOf(histograms[feature], features[feature]),
+  }));
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { buildNumberStats } from "./gaps";
+import type { Draw } from "./types";
+
+function draw(drwNo: number, numbers: number[], bonus: number): Draw {
+  return { drwNo, drwNoDate: "2024-01-06", numbers, bonus };
+}
+
+// Round 4 is missing; gaps count only the draws that are present.
+const DRAWS = [
+  draw(5, [1, 2, 18, 19, 20, 21], 3),
+  draw(1, [1, 2, 3, 4, 5, 6], 7),
+  draw(3, [2, 13, 14, 15, 16, 17], 1),
+  draw(2, [1, 8, 9, 10, 11, 12], 2),
+];
+
+describe("buildNumberStats", () => {
+  const stats = buildNumberStats(DRAWS, false);
+
+  it("tracks gaps and streaks for a repeating number", () => {
+    expect(stats[0]).toEqual({
+      num: 1,
+      count: 3,
+      lastDrawn: 5,
+      currentGap: 0,
+      averageGap: 0.5,
+      maxGap: 1,
+      longestStreak: 2,
+    });
+  });
+
+  it("counts the wait before a first hit and since the last one", () => {
+    expect(stats[2]).toMatchObject({ count: 1, currentGap: 3, maxGap: 3 });
+    expect(stats[12]).toMatchObject({
+      count: 1,
+      lastDrawn: 3,
+      currentGap: 1,
+      averageGap: null,
+      maxGap: 2,
+    });
+  });
+
+  it("reports never-drawn numbers as overdue for every draw", () => {
+    expect(stats[44]).toEqual({
+      num: 45,
+      count: 0,
+      lastDrawn: null,
+      currentGap: 4,
+      averageGap: null,
+      maxGap: 4,
+      longestStreak: 0,
+    });
+  });
+
+  it("counts bonus hits when asked", () => {
+    expect(buildNumberStats(DRAWS, true)[1]).toMatchObject({
+      count: 4,
+      currentGap: 0,
+      averageGap: 0,
+      longestStreak: 4,
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import type { Draw } from "./types";
+
+export type NumberStats = {
+  num: number;
+  count: number;
+  /** Most recent draw the number appeared in; null if it never has. */
+  lastDrawn: number | null;
+  /** Draws since the last hit (0 = drawn in the latest draw). */
+  currentGap: number;
+  /** Mean draws missed between consecutive hits; null below two hits. */
+  averageGap: number | null;
+  /** Longest gap seen, including the current one. */
+  maxGap: number;
+  /** Most consecutive draws the number appeared in. */
+  longestStreak: number;
+};
+
+/**
+ * Per-number gap and streak statistics. Gaps are counted in draws present in
+ * `draws`, so missing draws shorten gaps rather than splitting them.
+ */
+export function buildNumberStats(
+  draws: Iterable<Draw>,
+  includeBonus: boolean,
+): NumberStats[] {
+  const sorted = [...draws].sort((a, b) => a.drwNo - b.drwNo);
+  const stats = Array.from({ length: 45 }, (_, index) => ({
+    num: index + 1,
+    count: 0,
+    lastIndex: -1,
+    lastDrawn: null as number | null,
+    gapTotal: 0,
+    maxGap: 0,
+    streak: 0,
+    longestStreak: 0,
+  }));
+
+  sorted.forEach((draw, index) => {
+    const hits = includeBonus ? [...draw.numbers, draw.bonus] : draw.numbers;
+    for (const num of hits) {
+      const item = stats[num - 1];
+      if (item.lastIndex >= 0) {
+        const gap = index - item.lastIndex - 1;
+        item.gapTotal += gap;
+        item.maxGap = Math.max(item.maxGap, gap);
+      } else {
+        item.maxGap = index;
+      }
+      item.streak = item.lastIndex === index - 1 ? item.streak + 1 : 1;
+      item.longestStreak = Math.max(item.longestStreak, item.streak);
+      item.count += 1;
+      item.lastIndex = index;
+      item.lastDrawn = draw.drwNo;
+    }
+  });
+
+  return stats.map((item) => {
+    const currentGap = sorted.length - 1 - item.lastIndex;
+    return {
+      num: item.num,
+      count: item.count,
+      lastDrawn: item.lastDrawn,
+      currentGap,
+      averageGap: item.count >= 2 ? item.gapTotal / (item.count - 1) : null,
+      maxGap: Math.max(item.maxGap, currentGap),
+      longestStreak: item.longestStreak,
+    };
+  });
+}
@@ -0,0 +1,153 @@
+import {
+  ConstraintSearchExhaustedError,
+  DEFAULT_CONSTRAINTS,
+  UnsatisfiableConstraintsError,
+  explainConflicts,
+  findSatisfyingTicket,
+  satisfiesConstraints,
+} from "./constraints";
+import type { NumberStats } from "./gaps";
+import type { PairMatrix } from "./pairs";
+import type { Rng } from "./rng";
+import type { RankingItem } from "./types";
+
+export function shuffle<T>(items: T[], rng: Rng) {
+  const data = [...items];
+  for (let i = data.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(rng() * (i + 1));
+    [data[i], data[j]] = [data[j], data[i]];
+  }
+  return data;
+}
+
+export function weightedPick(
+  counts: RankingItem[],
+  size: number,
+  rng: Rng,
+  power = 1.4,
+) {
+  const pool = counts.map((item) => ({
+    num: item.num,
+    weight: Math.max(1, item.count) ** power,
+  }));
+  const picked: number[] = [];
+  const local = [...pool];
+  for (let i = 0; i < size && local.length > 0; i += 1) {
+    const total = local.reduce((sum, item) => sum + item.weight, 0);
+    let r = rng() * total;
+    let idx = 0;
+    while (idx < local.length && r > local[idx].weight) {
+      r -= local[idx].weight;
+      idx += 1;
+    }
+    const chosen = local[Math.min(idx, local.length - 1)];
+    picked.push(chosen.num);
+    local.splice(Math.min(idx, local.length - 1), 1);
+  }
+  return picked.sort((a, b) => a - b);
+}
+
+export function balancedPick(
+  counts: RankingItem[],
+  rng: Rng,
+  groupTargets = [1, 1, 1, 1, 2],
+) {
+  const groups: number[][] = [[], [], [], [], []];
+  for (const item of counts) {
+    const idx = Math.min(Math.floor((item.num - 1) / 10), 4);
+    groups[idx].push(item.num);
+  }
+  const result: number[] = [];
+  groupTargets.forEach((size, idx) => {
+    const group = groups[idx];
+    const shuffled = shuffle(group, rng);
+    result.push(...shuffled.slice(0, size));
+  });
+  return result.sort((a, b) => a - b).slice(0, 6);
+}
+
+/** Orders numbers by weighted random keys (Efraimidis–Spirakis). */
+function weightedOrder(counts: RankingItem[], rng: Rng, power: number) {
+  return counts
+    .map((item) => ({
+      num: item.num,
+      key: rng() ** (1 / Math.max(1, item.count) ** power),
+    }))
+    .sort((a, b) => b.key - a.key)
+    .map((item) => item.num);
+}
+
+export function filteredPick(
+  counts: RankingItem[],
+  rng: Rng,
+  constraints = DEFAULT_CONSTRAINTS,
+) {
+  const conflicts = explainConflicts(constraints);
+  if (conflicts.length > 0) {
+    throw new UnsatisfiableConstraintsError(conflicts);
+  }
+  const blocked = new Set([...constraints.required, ...constraints.excluded]);
+  const pool = counts.filter((item) => !blocked.has(item.num));
+  const slots = 6 - constraints.required.length;
+  for (let attempt = 0; attempt < 200; attempt += 1) {
+    const pick = [
+      ...constraints.required,
+      ...weightedPick(pool, slots, rng, 1.2),
+    ].sort((a, b) => a - b);
+    if (satisfiesConstraints(pick, constraints)) {
+      return pick;
+    }
+  }
+  // Tight constraints rarely pass by chance; search exhaustively instead.
+  const result = findSatisfyingTicket(
+    constraints,
+    weightedOrder(pool, rng, 1.2),
+  );
+  if (result.status === "exhausted") {
+    throw new ConstraintSearchExhaustedError();
+  }
+  if (result.status === "none") {
+    throw new UnsatisfiableConstraintsError([
+      "모든 조건을 동시에 만족하는 조합이 없습니다.",
+    ]);
+  }
+  return result.ticket;
+}
+
+export function probabilisticPick(counts: RankingItem[], rng: Rng) {
+  return weightedPick(counts, 6, rng, 1.0);
+}
+
+/** Favours numbers that have gone longest without being drawn. */
+export function overduePick(stats: NumberStats[], rng: Rng) {
+  return weightedPick(
+    stats.map((item) => ({ num: item.num, count: item.currentGap + 1 })),
+    6,
+    rng,
+    1.0,
+  );
+}
+
+/**
+ * Seeds a ticket with one frequency-weighted number, then repeatedly adds the
+ * number that co-occurs most with everything picked so far (weighted draw).
+ */
+export function pairChainPick(
+  counts: RankingItem[],
+  pairs: PairMatrix,
+  rng: Rng,
+) {
+  const picked = weightedPick(counts, 1, rng);
+  while (picked.length < 6) {
+    const candidates = counts
+      .filter((item) => !picked.includes(item.num))
+      .map((item) => ({
+        num: item.num,
+        count:
+          picked.reduce((sum, num) => sum + pairs[num - 1][item.num - 1], 0) +
+          1,
+      }));
+    picked.push(...weightedPick(candidates, 1, rng, 2));
+  }
+  return picked.sort((a, b) => a - b);
+}
@@ -0,0 +1,32 @@
+import { createHash } from "node:crypto";
+import { NextResponse } from "next/server";
+
+// Browsers and CDNs may reuse a response for a minute and serve it stale
+// for a while longer; the server already refreshes in the background.
+const CACHE_CONTROL = "public, max-age=60, stale-while-revalidate=600";
+
+function etagMatches(header: string | null, etag: string) {
+  if (!header) {
+    return false;
+  }
+  return header
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === etag);
+}
+
+/**
+ * JSON response with Cache-Control and an ETag derived from the body.
+ * Answers 304 with no body when the request's If-None-Match still matches.
+ */
+export function cachedJson(request: Request, body: unknown) {
+  const payload = JSON.stringify(body);
+  const etag = `"${createHash("sha1").update(payload).digest("base64url")}"`;
+  const headers = { "Cache-Control": CACHE_CONTROL, ETag: etag };
+  if (etagMatches(request.headers.get("if-none-match"), etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  return new NextResponse(payload, {
+    headers: { ...headers, "Content-Type": "application/json" },
+  });
+}
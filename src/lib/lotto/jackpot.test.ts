@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { expectedValues, jackpotHistory, salesTrend } from "./jackpot";
+import { NOMINAL_PRIZES, TOTAL_COMBINATIONS, checkTicket } from "./prize";
+import type { Draw } from "./types";
+
+function draw(no: number, firstWinners: number, totalSales: number): Draw {
+  return {
+    drwNo: no,
+    drwNoDate: "2024-01-06",
+    numbers: [1, 2, 3, 4, 5, 6],
+    bonus: 7,
+    prize: {
+      firstPrize: firstWinners ? 3_000_000_000 : 0,
+      firstWinners,
+      firstPrizeTotal: firstWinners * 3_000_000_000,
+      totalSales,
+    },
+  };
+}
+
+describe("jackpotHistory", () => {
+  it("skips draws without prize data and flags rollovers", () => {
+    const bare = { ...draw(2, 1, 0), prize: undefined };
+    const history = jackpotHistory([draw(1, 0, 100), bare, draw(3, 2, 300)]);
+    expect(history.map((point) => [point.drwNo, point.rolledOver])).toEqual([
+      [1, true],
+      [3, false],
+    ]);
+  });
+});
+
+describe("salesTrend", () => {
+  it("averages sales over full windows only", () => {
+    const trend = salesTrend(
+      [draw(1, 1, 100), draw(2, 1, 200), draw(3, 1, 600)],
+      2,
+    );
+    expect(trend.map((point) => point.rollingAverage)).toEqual([
+      null,
+      150,
+      400,
+    ]);
+  });
+});
+
+describe("expectedValues", () => {
+  it("weights each rank's payout by its odds", () => {
+    const [point] = expectedValues([draw(1, 1, 100)]);
+    expect(point.byRank[1]).toBeCloseTo(3_000_000_000 / TOTAL_COMBINATIONS);
+    expect(point.byRank[5]).toBeCloseTo(
+      (182_780 / TOTAL_COMBINATIONS) * NOMINAL_PRIZES[5],
+    );
+    expect(point.expectedValue).toBeCloseTo(
+      Object.values(point.byRank).reduce((sum, value) => sum + value, 0),
+    );
+    expect(point.returnRate).toBeCloseTo(point.expectedValue / 1000);
+  });
+
+  it("values 1등 at the whole pool and keeps rollover draws", () => {
+    const points = expectedValues([draw(1, 0, 100), draw(2, 3, 100)]);
+    expect(points.map((point) => point.drwNo)).toEqual([1, 2]);
+    expect(points[0].byRank[1]).toBe(0);
+    expect(points[1].byRank[1]).toBeCloseTo(9_000_000_000 / TOTAL_COMBINATIONS);
+  });
+});
+
+describe("checkTicket payouts", () => {
+  it("reports the real first prize and marks estimates", () => {
+    expect(checkTicket([1, 2, 3, 4, 5, 6], draw(1, 1, 100))).toMatchObject({
+      rank: 1,
+      payout: 3_000_000_000,
+      payoutExact: true,
+    });
+    expect(checkTicket([1, 2, 3, 4, 5, 7], draw(1, 1, 100))).toMatchObject({
+      rank: 2,
+      payout: NOMINAL_PRIZES[2],
+      payoutExact: false,
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  TICKET_PRICE,
+  TOTAL_COMBINATIONS,
+  WINNING_COMBINATIONS,
+  prizeAmount,
+  type PrizeRank,
+} from "./prize";
+import type { Draw, DrawPrize } from "./types";
+
+const RANKS: PrizeRank[] = [1, 2, 3, 4, 5];
+
+export type JackpotPoint = DrawPrize & {
+  drwNo: number;
+  drwNoDate: string;
+  /** Nobody matched all six, so the pool carried over. */
+  rolledOver: boolean;
+};
+
+export type SalesPoint = {
+  drwNo: number;
+  drwNoDate: string;
+  totalSales: number;
+  /** Mean sales over the `size` draws ending here; null until the window fills. */
+  rollingAverage: number | null;
+};
+
+export type ExpectedValuePoint = {
+  drwNo: number;
+  drwNoDate: string;
+  /** Expected KRW back per ticket, and per rank. */
+  expectedValue: number;
+  byRank: Record<PrizeRank, number>;
+  /** expectedValue / TICKET_PRICE. */
+  returnRate: number;
+};
+
+type DrawWithPrize = Draw & { prize: DrawPrize };
+
+function withPrize(draws: Draw[]) {
+  return draws.filter(
+    (draw): draw is DrawWithPrize => draw.prize !== undefined,
+  );
+}
+
+/** First-prize payouts for ascending `draws`, skipping draws without prize data. */
+export function jackpotHistory(draws: Draw[]): JackpotPoint[] {
+  return withPrize(draws).map((draw) => ({
+    drwNo: draw.drwNo,
+    drwNoDate: draw.drwNoDate,
+    ...draw.prize,
+    rolledOver: draw.prize.firstWinners === 0,
+  }));
+}
+
+/** Sales per draw with a rolling mean over the previous `size` draws with data. */
+export function salesTrend(draws: Draw[], size: number): SalesPoint[] {
+  const points = withPrize(draws);
+  let running = 0;
+  return points.map((draw, index) => {
+    running += draw.prize.totalSales;
+    if (index >= size) {
+      running -= points[index - size].prize.totalSales;
+    }
+    return {
+      drwNo: draw.drwNo,
+      drwNoDate: draw.drwNoDate,
+      totalSales: draw.prize.totalSales,
+      rollingAverage: index >= size - 1 ? running / size : null,
+    };
+  });
+}
+
+/** What one winning ticket of `rank` is worth for the EV at `draw`. */
+function rankValue(rank: PrizeRank, draw: DrawWithPrize) {
+  return rank === 1
+    ? draw.prize.firstPrizeTotal
+    : prizeAmount(rank, draw).amount;
+}
+
+/**
+ * Expected value of one ticket at each draw: the odds of every rank times
+ * what that rank paid (see prizeAmount; 2등/3등 are nominal estimates).
+ * 1등 is valued at the whole pool rather than the per-winner payout, so the
+ * term does not depend on how many tickets split it and rollover draws stay
+ * in the sample at whatever pool they recorded.
+ */
+export function expectedValues(draws: Draw[]): ExpectedValuePoint[] {
+  return withPrize(draws).map((draw) => {
+    const byRank = Object.fromEntries(
+      RANKS.map((rank) => [
+        rank,
+        (WINNING_COMBINATIONS[rank] / TOTAL_COMBINATIONS) *
+          rankValue(rank, draw),
+      ]),
+    ) as Record<PrizeRank, number>;
+    const expectedValue = RANKS.reduce((sum, rank) => sum + byRank[rank], 0);
+    return {
+      drwNo: draw.drwNo,
+      drwNoDate: draw.drwNoDate,
+      expectedValue,
+      byRank,
+      returnRate: expectedValue / TICKET_PRICE,
+    };
+  });
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { buildPairMatrix, topPairs, topTriples } from "./pairs";
+import type { Draw } from "./types";
+
+const DRAWS: Draw[] = [
+  {
+    drwNo: 1,
+    drwNoDate: "2024-01-06",
+    numbers: [1, 2, 3, 4, 5, 6],
+    bonus: 7,
+  },
+  {
+    drwNo: 2,
+    drwNoDate: "2024-01-13",
+    numbers: [1, 2, 3, 10, 11, 12],
+    bonus: 4,
+  },
+];
+
+describe("buildPairMatrix", () => {
+  it("counts each co-occurrence symmetrically", () => {
+    const matrix = buildPairMatrix(DRAWS, false);
+    expect(matrix[0][1]).toBe(2);
+    expect(matrix[1][0]).toBe(2);
+    expect(matrix[0][9]).toBe(1);
+    expect(matrix[0][6]).toBe(0);
+    expect(matrix[0][0]).toBe(0);
+  });
+
+  it("pairs the bonus ball only when asked", () => {
+    const matrix = buildPairMatrix(DRAWS, true);
+    expect(matrix[0][6]).toBe(1);
+    expect(matrix[3][9]).toBe(1);
+    expect(matrix[0][3]).toBe(2);
+  });
+});
+
+describe("topPairs", () => {
+  it("ranks pairs by count with the chance baseline", () => {
+    const pairs = topPairs(buildPairMatrix(DRAWS, false), 2, false, 4);
+    const expected = (2 * 6 * 5) / (45 * 44);
+    expect(pairs.map((pair) => pair.numbers)).toEqual([
+      [1, 2],
+      [1, 3],
+      [2, 3],
+      [1, 4],
+    ]);
+    expect(pairs[0].count).toBe(2);
+    expect(pairs[0].expected).toBeCloseTo(expected, 12);
+    expect(pairs[0].lift).toBeCloseTo(2 / expected, 9);
+  });
+});
+
+describe("topTriples", () => {
+  it("orders ties numerically", () => {
+    const triples = topTriples(DRAWS, false, 2);
+    expect(triples.map((triple) => triple.numbers)).toEqual([
+      [1, 2, 3],
+      [1, 2, 4],
+    ]);
+    expect(triples[0].count).toBe(2);
+    expect(triples[0].expected).toBeCloseTo(
+      (2 * 6 * 5 * 4) / (45 * 44 * 43),
+      12,
+    );
+  });
+
+  it("reports no lift without draws", () => {
+    expect(topTriples([], false, 5)).toEqual([]);
+    expect(topPairs(buildPairMatrix([], false), 0, false, 1)).toEqual([
+      { numbers: [1, 2], count: 0, expected: 0, lift: 0 },
+    ]);
+  });
+});
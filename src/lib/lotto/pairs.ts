@@ -0,0 +1,116 @@
+import type { Draw } from "./types";
+
+/** Symmetric 45×45 co-occurrence counts; `matrix[a - 1][b - 1]`. */
+export type PairMatrix = number[][];
+
+export type ComboStat = {
+  numbers: number[];
+  count: number;
+  /** Count a uniformly random draw would produce over the same draws. */
+  expected: number;
+  /** count / expected; 1 means "as often as chance". */
+  lift: number;
+};
+
+export function emptyPairMatrix(): PairMatrix {
+  return Array.from({ length: 45 }, () => Array.from({ length: 45 }, () => 0));
+}
+
+function drawnNumbers(draw: Draw, includeBonus: boolean) {
+  return includeBonus ? [...draw.numbers, draw.bonus] : draw.numbers;
+}
+
+/** Adds one draw's pairs to `matrix` in place. */
+export function addDrawPairs(
+  matrix: PairMatrix,
+  draw: Draw,
+  includeBonus: boolean,
+) {
+  const nums = drawnNumbers(draw, includeBonus);
+  for (let i = 0; i < nums.length; i += 1) {
+    for (let j = i + 1; j < nums.length; j += 1) {
+      matrix[nums[i] - 1][nums[j] - 1] += 1;
+      matrix[nums[j] - 1][nums[i] - 1] += 1;
+    }
+  }
+}
+
+export function buildPairMatrix(draws: Iterable<Draw>, includeBonus: boolean) {
+  const matrix = emptyPairMatrix();
+  for (const draw of draws) {
+    addDrawPairs(matrix, draw, includeBonus);
+  }
+  return matrix;
+}
+
+/**
+ * Chance that a given set of `size` numbers all appear in one draw of
+ * `drawn` balls out of 45.
+ */
+function comboRate(size: number, drawn: number) {
+  let rate = 1;
+  for (let i = 0; i < size; i += 1) {
+    rate *= (drawn - i) / (45 - i);
+  }
+  return rate;
+}
+
+function toStat(numbers: number[], count: number, expected: number) {
+  return {
+    numbers,
+    count,
+    expected,
+    lift: expected > 0 ? count / expected : 0,
+  };
+}
+
+function byCount(a: ComboStat, b: ComboStat) {
+  if (b.count !== a.count) {
+    return b.count - a.count;
+  }
+  return a.numbers.join(",").localeCompare(b.numbers.join(","), "en", {
+    numeric: true,
+  });
+}
+
+export function topPairs(
+  matrix: PairMatrix,
+  drawCount: number,
+  includeBonus: boolean,
+  limit: number,
+): ComboStat[] {
+  const expected = drawCount * comboRate(2, includeBonus ? 7 : 6);
+  const pairs: ComboStat[] = [];
+  for (let a = 1; a <= 45; a += 1) {
+    for (let b = a + 1; b <= 45; b += 1) {
+      pairs.push(toStat([a, b], matrix[a - 1][b - 1], expected));
+    }
+  }
+  return pairs.sort(byCount).slice(0, limit);
+}
+
+export function topTriples(
+  draws: Iterable<Draw>,
+  includeBonus: boolean,
+  limit: number,
+): ComboStat[] {
+  const counts = new Map<string, number>();
+  let drawCount = 0;
+  for (const draw of draws) {
+    drawCount += 1;
+    const nums = [...drawnNumbers(draw, includeBonus)].sort((a, b) => a - b);
+    for (let i = 0; i < nums.length; i += 1) {
+      for (let j = i + 1; j < nums.length; j += 1) {
+        for (let k = j + 1; k < nums.length; k += 1) {
+          const key = `${nums[i]},${nums[j]},${nums[k]}`;
+          counts.set(key, (counts.get(key) ?? 0) + 1);
+        }
+      }
+    }
+  }
+  const expected = drawCount * comboRate(3, includeBonus ? 7 : 6);
+  return [...counts]
+    .map(([key, count]) => toStat(key.split(",").map(Number), count, expected))
+    .sort(byCount)
+    .slice(0, limit);
+}
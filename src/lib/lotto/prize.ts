@@ -0,0 +1,119 @@
+import type { Draw } from "./types";
+
+export type PrizeRank = 1 | 2 | 3 | 4 | 5;
+
+export type TicketResult = {
+  ticket: number[];
+  matched: number[];
+  matchCount: number;
+  bonusMatched: boolean;
+  rank: PrizeRank | null;
+  /** KRW won by this ticket; 0 without a rank. */
+  payout: number;
+  /** False when the payout is a nominal estimate rather than the real amount. */
+  payoutExact: boolean;
+};
+
+export class TicketError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TicketError";
+  }
+}
+
+export const TICKET_SIZE = 6;
+export const MAX_NUMBER = 45;
+
+/** Validates a ticket and returns its numbers sorted ascending. */
+export function normalizeTicket(value: unknown): number[] {
+  if (!Array.isArray(value) || value.length !== TICKET_SIZE) {
+    throw new TicketError(
+      `a ticket must contain exactly ${TICKET_SIZE} numbers`,
+    );
+  }
+  const numbers = value.map(Number);
+  if (numbers.some((n) => !Number.isInteger(n) || n < 1 || n > MAX_NUMBER)) {
+    throw new TicketError(
+      `ticket numbers must be integers from 1 to ${MAX_NUMBER}`,
+    );
+  }
+  if (new Set(numbers).size !== numbers.length) {
+    throw new TicketError("ticket numbers must not repeat");
+  }
+  return numbers.sort((a, b) => a - b);
+}
+
+/**
+ * Lotto 6/45 prize table: 6 → 1등, 5 + bonus → 2등, 5 → 3등, 4 → 4등,
+ * 3 → 5등. The bonus number only matters for the 5-match case.
+ */
+export function getPrizeRank(
+  matchCount: number,
+  bonusMatched: boolean,
+): PrizeRank | null {
+  if (matchCount === 6) {
+    return 1;
+  }
+  if (matchCount === 5) {
+    return bonusMatched ? 2 : 3;
+  }
+  if (matchCount === 4) {
+    return 4;
+  }
+  if (matchCount === 3) {
+    return 5;
+  }
+  return null;
+}
+
+export function checkTicket(ticket: number[], draw: Draw): TicketResult {
+  const winning = new Set(draw.numbers);
+  const matched = ticket.filter((num) => winning.has(num));
+  const bonusMatched = ticket.includes(draw.bonus);
+  const rank = getPrizeRank(matched.length, bonusMatched);
+  const payout = rank ? prizeAmount(rank, draw) : { amount: 0, exact: true };
+  return {
+    ticket,
+    matched,
+    matchCount: matched.length,
+    bonusMatched,
+    rank,
+    payout: payout.amount,
+    payoutExact: payout.exact,
+  };
+}
+
+export const TICKET_PRICE = 1000;
+
+/**
+ * Fixed payouts for 4등/5등 and rough historical averages for the
+ * pari-mutuel 1–3등 prizes, in KRW. Only meant for cost/return estimates.
+ */
+export const NOMINAL_PRIZES: Record<PrizeRank, number> = {
+  1: 2_000_000_000,
+  2: 55_000_000,
+  3: 1_450_000,
+  4: 50_000,
+  5: 5_000,
+};
+
+/** Tickets out of C(45, 6) that win each rank. */
+export const TOTAL_COMBINATIONS = 8_145_060;
+export const WINNING_COMBINATIONS: Record<PrizeRank, number> = {
+  1: 1,
+  2: 6,
+  3: 228,
+  4: 11_115,
+  5: 182_780,
+};
+
+/**
+ * What one ticket of `rank` paid at `draw`: the recorded 1등 amount when the
+ * draw has prize data, the fixed 4등/5등 amounts, otherwise NOMINAL_PRIZES.
+ */
+export function prizeAmount(rank: PrizeRank, draw: Draw) {
+  if (rank === 1 && draw.prize) {
+    return { amount: draw.prize.firstPrize, exact: true };
+  }
+  return { amount: NOMINAL_PRIZES[rank], exact: rank >= 4 };
+}
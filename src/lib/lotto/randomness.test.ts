@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  analyzeRandomness,
+  chiSquarePValue,
+  twoSidedPValue,
+} from "./randomness";
+import type { Draw } from "./types";
+
+const DRAWS: Draw[] = [
+  {
+    drwNo: 1,
+    drwNoDate: "2002-12-07",
+    numbers: [10, 23, 29, 33, 37, 40],
+    bonus: 16,
+  },
+  {
+    drwNo: 2,
+    drwNoDate: "2002-12-14",
+    numbers: [9, 13, 21, 25, 32, 42],
+    bonus: 2,
+  },
+  {
+    drwNo: 3,
+    drwNoDate: "2002-12-21",
+    numbers: [11, 16, 19, 21, 27, 31],
+    bonus: 30,
+  },
+];
+
+function total(values: number[]) {
+  return values.reduce((sum, value) => sum + value, 0);
+}
+
+describe("chiSquarePValue", () => {
+  it("matches tabulated critical values", () => {
+    expect(chiSquarePValue(60.48, 44)).toBeCloseTo(0.05, 3);
+    expect(chiSquarePValue(3.841, 1)).toBeCloseTo(0.05, 3);
+    expect(chiSquarePValue(18.307, 10)).toBeCloseTo(0.05, 3);
+    expect(chiSquarePValue(0, 44)).toBe(1);
+  });
+});
+
+describe("twoSidedPValue", () => {
+  it("matches the normal table", () => {
+    expect(twoSidedPValue(1.96)).toBeCloseTo(0.05, 4);
+    expect(twoSidedPValue(-2.576)).toBeCloseTo(0.01, 4);
+    expect(twoSidedPValue(0)).toBeCloseTo(1, 6);
+  });
+});
+
+describe("analyzeRandomness", () => {
+  it("uses reference distributions that sum to one", () => {
+    const report = analyzeRandomness(DRAWS, false);
+    expect(total(report.oddEven.expected)).toBeCloseTo(DRAWS.length, 9);
+    expect(total(report.sum.expected)).toBeCloseTo(DRAWS.length, 9);
+    expect(total(report.oddEven.observed)).toBe(DRAWS.length);
+    expect(total(report.sum.observed)).toBe(DRAWS.length);
+    expect(report.sum.expectedMean).toBe(138);
+  });
+
+  it("counts the bonus ball only in the per-number tests", () => {
+    const report = analyzeRandomness(DRAWS, true);
+    expect(total(report.numbers.map((item) => item.count))).toBe(21);
+    expect(report.numbers[1]).toMatchObject({ num: 2, count: 1 });
+    expect(report.sum.mean).toBeCloseTo((172 + 142 + 125) / 3, 9);
+  });
+
+  it("reports no evidence against fairness without draws", () => {
+    const report = analyzeRandomness([], false);
+    expect(report.frequency.pValue).toBe(1);
+    expect(report.oddEven.pValue).toBe(1);
+    expect(report.sum.mean).toBeNull();
+  });
+});
@@ -0,0 +1,344 @@
+import type { Draw } from "./types";
+
+const BALLS = 45;
+const PICKS = 6;
+const ODD_BALLS = 23;
+/** Pool categories until each expects at least this many draws. */
+const MIN_EXPECTED = 5;
+const SIGNIFICANCE = 0.05;
+
+export type ChiSquareResult = {
+  statistic: number;
+  df: number;
+  pValue: number;
+};
+
+export type NumberZScore = {
+  num: number;
+  count: number;
+  expected: number;
+  z: number;
+  pValue: number;
+};
+
+export type DistributionTest = ChiSquareResult & {
+  /** Category labels after sparse tails are pooled, e.g. "0–1" or "3". */
+  labels: string[];
+  observed: number[];
+  expected: number[];
+};
+
+export type RunsTest = {
+  num: number;
+  runs: number;
+  expectedRuns: number;
+  z: number | null;
+  pValue: number | null;
+};
+
+export type RandomnessReport = {
+  drawCount: number;
+  includeBonus: boolean;
+  alpha: number;
+  /** Per-number threshold after a Bonferroni correction over 45 tests. */
+  bonferroniAlpha: number;
+  frequency: ChiSquareResult;
+  numbers: NumberZScore[];
+  oddEven: DistributionTest;
+  sum: DistributionTest & { mean: number | null; expectedMean: number };
+  runs: RunsTest[];
+};
+
+// Lanczos approximation (g = 7, n = 9).
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+  771.32342877765313, -176.61502916214059, 12.507343278686905,
+  -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+function logGamma(x: number): number {
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i += 1) {
+    sum += LANCZOS[i] / (z + i);
+  }
+  const t = z + 7.5;
+  return (
+    0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum)
+  );
+}
+
+/** Regularized upper incomplete gamma Q(a, x) (Numerical Recipes 6.2). */
+function upperGamma(a: number, x: number) {
+  if (x <= 0) {
+    return 1;
+  }
+  const prefix = Math.exp(-x + a * Math.log(x) - logGamma(a));
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500; n += 1) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-15) {
+        break;
+      }
+    }
+    return Math.max(0, 1 - sum * prefix);
+  }
+  let b = x + 1 - a;
+  let c = 1 / 1e-300;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i += 1) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    d = Math.abs(d) < 1e-300 ? 1e-300 : d;
+    c = b + an / c;
+    c = Math.abs(c) < 1e-300 ? 1e-300 : c;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) {
+      break;
+    }
+  }
+  return prefix * h;
+}
+
+export function chiSquarePValue(statistic: number, df: number) {
+  return upperGamma(df / 2, statistic / 2);
+}
+
+/** Standard normal CDF via the Abramowitz–Stegun 7.1.26 erf approximation. */
+function normalCdf(z: number) {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) *
+      t +
+      0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+export function twoSidedPValue(z: number) {
+  return Math.min(1, 2 * (1 - normalCdf(Math.abs(z))));
+}
+
+function choose(n: number, k: number) {
+  if (k < 0 || k > n) {
+    return 0;
+  }
+  let result = 1;
+  for (let i = 1; i <= k; i += 1) {
+    result = (result * (n - k + i)) / i;
+  }
+  return result;
+}
+
+/** P(j odd numbers) for j = 0..6 in a uniform 6-of-45 draw. */
+function oddCountDistribution() {
+  const total = choose(BALLS, PICKS);
+  return Array.from(
+    { length: PICKS + 1 },
+    (_, odd) =>
+      (choose(ODD_BALLS, odd) * choose(BALLS - ODD_BALLS, PICKS - odd)) / total,
+  );
+}
+
+/** P(sum = s) for every reachable sum of a uniform 6-of-45 draw. */
+function sumDistribution() {
+  const maxSum = Array.from({ length: PICKS }, (_, i) => BALLS - i).reduce(
+    (a, b) => a + b,
+    0,
+  );
+  // ways[k][s] = subsets of size k with sum s, built ball by ball.
+  const ways = Array.from({ length: PICKS + 1 }, () =>
+    Array.from({ length: maxSum + 1 }, () => 0),
+  );
+  ways[0][0] = 1;
+  for (let ball = 1; ball <= BALLS; ball += 1) {
+    for (let k = PICKS; k >= 1; k -= 1) {
+      for (let s = maxSum; s >= ball; s -= 1) {
+        ways[k][s] += ways[k - 1][s - ball];
+      }
+    }
+  }
+  const total = choose(BALLS, PICKS);
+  return ways[PICKS].map((count) => count / total);
+}
+
+/**
+ * Chi-square goodness-of-fit on categorical counts, pooling adjacent
+ * categories until each expects at least MIN_EXPECTED observations.
+ */
+function distributionTest(
+  observed: number[],
+  probabilities: number[],
+  drawCount: number,
+  label: (index: number) => string,
+): DistributionTest {
+  const pooled: {
+    from: number;
+    to: number;
+    observed: number;
+    expected: number;
+  }[] = [];
+  let current = { from: 0, to: 0, observed: 0, expected: 0 };
+  probabilities.forEach((probability, index) => {
+    if (current.expected === 0 && current.observed === 0) {
+      current.from = index;
+    }
+    current.to = index;
+    current.observed += observed[index] ?? 0;
+    current.expected += probability * drawCount;
+    if (current.expected >= MIN_EXPECTED) {
+      pooled.push(current);
+      current = { from: index + 1, to: index + 1, observed: 0, expected: 0 };
+    }
+  });
+  if (current.expected > 0 || current.observed > 0) {
+    const last = pooled[pooled.length - 1];
+    if (last) {
+      last.to = current.to;
+      last.observed += current.observed;
+      last.expected += current.expected;
+    } else {
+      pooled.push(current);
+    }
+  }
+
+  const statistic = pooled.reduce(
+    (sum, bin) =>
+      bin.expected > 0
+        ? sum + (bin.observed - bin.expected) ** 2 / bin.expected
+        : sum,
+    0,
+  );
+  const df = Math.max(1, pooled.length - 1);
+  return {
+    statistic,
+    df,
+    pValue: drawCount > 0 ? chiSquarePValue(statistic, df) : 1,
+    labels: pooled.map((bin) =>
+      bin.from === bin.to
+        ? label(bin.from)
+        : `${label(bin.from)}–${label(bin.to)}`,
+    ),
+    observed: pooled.map((bin) => bin.observed),
+    expected: pooled.map((bin) => bin.expected),
+  };
+}
+
+/** Wald–Wolfowitz runs test on one number's hit/miss sequence. */
+function runsTest(num: number, hits: boolean[]): RunsTest {
+  const n1 = hits.filter(Boolean).length;
+  const n2 = hits.length - n1;
+  const n = hits.length;
+  let runs = n > 0 ? 1 : 0;
+  for (let i = 1; i < n; i += 1) {
+    if (hits[i] !== hits[i - 1]) {
+      runs += 1;
+    }
+  }
+  const expectedRuns = n > 0 ? (2 * n1 * n2) / n + 1 : 0;
+  const variance =
+    n > 1 ? (2 * n1 * n2 * (2 * n1 * n2 - n)) / (n * n * (n - 1)) : 0;
+  if (variance <= 0) {
+    return { num, runs, expectedRuns, z: null, pValue: null };
+  }
+  const z = (runs - expectedRuns) / Math.sqrt(variance);
+  return { num, runs, expectedRuns, z, pValue: twoSidedPValue(z) };
+}
+
+/**
+ * Tests whether the draw history is consistent with fair 6-of-45 draws.
+ * Frequency, z-score and runs tests honour `includeBonus`; the odd/even and
+ * sum tests always use the six main numbers, which is what their
+ * hypergeometric reference distributions describe.
+ */
+export function analyzeRandomness(
+  history: Iterable<Draw>,
+  includeBonus: boolean,
+): RandomnessReport {
+  const draws = [...history].sort((a, b) => a.drwNo - b.drwNo);
+  const drawCount = draws.length;
+  const drawn = includeBonus ? PICKS + 1 : PICKS;
+  const p = drawn / BALLS;
+  const hits = Array.from({ length: BALLS }, () =>
+    Array.from({ length: drawCount }, () => false),
+  );
+  const oddObserved = Array.from({ length: PICKS + 1 }, () => 0);
+  const sums: number[] = [];
+
+  draws.forEach((draw, index) => {
+    const nums = includeBonus ? [...draw.numbers, draw.bonus] : draw.numbers;
+    for (const num of nums) {
+      hits[num - 1][index] = true;
+    }
+    oddObserved[draw.numbers.filter((num) => num % 2 === 1).length] += 1;
+    sums.push(draw.numbers.reduce((sum, num) => sum + num, 0));
+  });
+
+  const expected = drawCount * p;
+  const counts = hits.map((row) => row.filter(Boolean).length);
+  // Balls within a draw are drawn without replacement, so the counts are
+  // negatively correlated; scaling by 44 / (45 − drawn) restores χ²(44).
+  const rawChi =
+    expected > 0
+      ? counts.reduce((sum, count) => sum + (count - expected) ** 2, 0) /
+        expected
+      : 0;
+  const frequencyStatistic = (rawChi * (BALLS - 1)) / (BALLS - drawn);
+
+  const sd = Math.sqrt(drawCount * p * (1 - p));
+  const numbers = counts.map((count, index) => {
+    const z = sd > 0 ? (count - expected) / sd : 0;
+    return {
+      num: index + 1,
+      count,
+      expected,
+      z,
+      pValue: twoSidedPValue(z),
+    };
+  });
+
+  const sumProbabilities = sumDistribution();
+  const sumObserved = Array.from({ length: sumProbabilities.length }, () => 0);
+  for (const sum of sums) {
+    sumObserved[sum] += 1;
+  }
+
+  return {
+    drawCount,
+    includeBonus,
+    alpha: SIGNIFICANCE,
+    bonferroniAlpha: SIGNIFICANCE / BALLS,
+    frequency: {
+      statistic: frequencyStatistic,
+      df: BALLS - 1,
+      pValue:
+        drawCount > 0 ? chiSquarePValue(frequencyStatistic, BALLS - 1) : 1,
+    },
+    numbers,
+    oddEven: distributionTest(
+      oddObserved,
+      oddCountDistribution(),
+      drawCount,
+      String,
+    ),
+    sum: {
+      ...distributionTest(sumObserved, sumProbabilities, drawCount, String),
+      mean: drawCount > 0 ? sums.reduce((a, b) => a + b, 0) / drawCount : null,
+      expectedMean: (PICKS * (BALLS + 1)) / 2,
+    },
+    runs: hits.map((row, index) => runsTest(index + 1, row)),
+  };
+}
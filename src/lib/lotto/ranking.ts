@@ -0,0 +1,60 @@
+import type { Draw, RankingItem } from "./types";
+
+export function buildRanking(draws: Iterable<Draw>, includeBonus: boolean) {
+  const counts = Array.from({ length: 45 }, (_, index) => ({
+    num: index + 1,
+    count: 0,
+  }));
+  for (const draw of draws) {
+    for (const num of draw.numbers) {
+      counts[num - 1].count += 1;
+    }
+    if (includeBonus) {
+      counts[draw.bonus - 1].count += 1;
+    }
+  }
+
+  const ranking = [...counts].sort((a, b) => {
+    if (b.count !== a.count) {
+      return b.count - a.count;
+    }
+    return a.num - b.num;
+  });
+
+  const maxCount = ranking[0]?.count ?? 0;
+
+  return {
+    counts,
+    ranking,
+    top6: ranking.slice(0, 6).map((item) => item.num),
+    next6: ranking.slice(6, 12).map((item) => item.num),
+    top18: ranking.slice(0, 18).map((item) => item.num),
+    hasData: maxCount > 0,
+  };
+}
+
+/** Rebuilds a full 1–45 ranking from a possibly partial list of counts. */
+export function buildRankingFromCounts(counts: RankingItem[]) {
+  const fullCounts = Array.from({ length: 45 }, (_, index) => {
+    const num = index + 1;
+    const found = counts.find((item) => item.num === num);
+    return {
+      num,
+      count: found?.count ?? 0,
+    };
+  });
+
+  const ranking = [...fullCounts].sort((a, b) => {
+    if (b.count !== a.count) {
+      return b.count - a.count;
+    }
+    return a.num - b.num;
+  });
+
+  const maxCount = ranking[0]?.count ?? 0;
+  return {
+    counts: fullCounts,
+    ranking,
+    hasData: maxCount > 0,
+  };
+}
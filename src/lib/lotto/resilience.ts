@@ -0,0 +1,164 @@
+/** Thrown instead of calling upstream while the breaker is open. */
+export class CircuitOpenError extends Error {
+  constructor(readonly openUntil: number | null) {
+    super("circuit open");
+    this.name = "CircuitOpenError";
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** "Full jitter" exponential backoff: uniform in [0, min(max, base·2^attempt)]. */
+export function backoffDelay(
+  attempt: number,
+  baseMs: number,
+  maxMs: number,
+  random: () => number = Math.random,
+) {
+  return random() * Math.min(maxMs, baseMs * 2 ** attempt);
+}
+
+/**
+ * Token bucket: allows bursts of `capacity` requests, then paces callers to
+ * `refillPerSecond`. `take` waits (FIFO-ish) until a token is free.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private refilledAt = Date.now();
+
+  constructor(
+    readonly capacity: number,
+    readonly refillPerSecond: number,
+  ) {
+    this.tokens = capacity;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.refilledAt) / 1000) * this.refillPerSecond,
+    );
+    this.refilledAt = now;
+  }
+
+  async take() {
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(((1 - this.tokens) / this.refillPerSecond) * 1000);
+    }
+  }
+
+  available() {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+}
+
+export type BreakerState = "closed" | "open" | "halfOpen";
+
+export type BreakerOptions = {
+  /** Consecutive ordinary failures that open the circuit. */
+  failureThreshold: number;
+  /** Cooldown after the first trip; doubles on each trip in a row. */
+  baseCooldownMs: number;
+  maxCooldownMs: number;
+};
+
+export type BreakerSnapshot = {
+  state: BreakerState;
+  failures: number;
+  /** Trips since the circuit last closed; drives the cooldown length. */
+  trips: number;
+  openUntil: number | null;
+};
+
+/**
+ * Circuit breaker with half-open probing: once the cooldown ends a single
+ * request is let through; success closes the circuit, failure reopens it with
+ * a longer (jittered) cooldown.
+ */
+export class CircuitBreaker {
+  private state: BreakerState = "closed";
+  private failures = 0;
+  private trips = 0;
+  private openUntil: number | null = null;
+  private probing = false;
+
+  constructor(
+    private readonly options: BreakerOptions,
+    private readonly random: () => number = Math.random,
+  ) {}
+
+  /** Whether a request may be made now; claims the probe when half-open. */
+  tryAcquire() {
+    if (this.state === "open") {
+      if (Date.now() < (this.openUntil ?? 0)) {
+        return false;
+      }
+      this.state = "halfOpen";
+      this.probing = false;
+    }
+    if (this.state === "halfOpen") {
+      if (this.probing) {
+        return false;
+      }
+      this.probing = true;
+    }
+    return true;
+  }
+
+  /** Like tryAcquire but without side effects. */
+  isOpen() {
+    return this.state === "open" && Date.now() < (this.openUntil ?? 0);
+  }
+
+  recordSuccess() {
+    this.state = "closed";
+    this.failures = 0;
+    this.trips = 0;
+    this.openUntil = null;
+    this.probing = false;
+  }
+
+  recordFailure() {
+    this.failures += 1;
+    if (
+      this.state === "halfOpen" ||
+      this.failures >= this.options.failureThreshold
+    ) {
+      this.trip();
+    }
+  }
+
+  /** Opens the circuit immediately, e.g. on a WAF block page. */
+  trip() {
+    this.trips += 1;
+    const cooldown = Math.min(
+      this.options.maxCooldownMs,
+      this.options.baseCooldownMs * 2 ** (this.trips - 1),
+    );
+    // Equal jitter: at least half the cooldown, so retries never bunch up.
+    this.openUntil = Date.now() + cooldown * (0.5 + this.random() * 0.5);
+    this.state = "open";
+    this.failures = 0;
+    this.probing = false;
+  }
+
+  snapshot(): BreakerSnapshot {
+    return {
+      state: this.state === "open" && !this.isOpen() ? "halfOpen" : this.state,
+      failures: this.failures,
+      trips: this.trips,
+      // Once the cooldown has passed nothing is blocked any more, even
+      // though `state` only leaves "open" on the next tryAcquire.
+      openUntil: this.isOpen() ? this.openUntil : null,
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { ALGO_MODES, generateTicket } from "./algorithms";
+import { buildNumberStats } from "./gaps";
+import { buildPairMatrix } from "./pairs";
+import { buildRanking } from "./ranking";
+import { mulberry32, parseSeed } from "./rng";
+import type { Draw } from "./types";
+
+const DRAWS: Draw[] = [
+  {
+    drwNo: 1,
+    drwNoDate: "2002-12-07",
+    numbers: [10, 23, 29, 33, 37, 40],
+    bonus: 16,
+  },
+  {
+    drwNo: 2,
+    drwNoDate: "2002-12-14",
+    numbers: [9, 13, 21, 25, 32, 42],
+    bonus: 2,
+  },
+  {
+    drwNo: 3,
+    drwNoDate: "2002-12-21",
+    numbers: [11, 16, 19, 21, 27, 31],
+    bonus: 30,
+  },
+];
+
+describe("mulberry32", () => {
+  it("produces the reference sequence for a seed", () => {
+    const rng = mulberry32(42);
+    expect([rng(), rng(), rng()]).toEqual([
+      0.6011037519201636, 0.44829055899754167, 0.8524657934904099,
+    ]);
+  });
+
+  it("keeps values in [0, 1) and wraps seeds to uint32", () => {
+    const rng = mulberry32(7);
+    for (let i = 0; i < 1000; i += 1) {
+      const value = rng();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+    expect(mulberry32(2 ** 32 + 42)()).toBe(mulberry32(42)());
+  });
+});
+
+describe("parseSeed", () => {
+  it("accepts decimal uint32 values", () => {
+    expect(parseSeed("0")).toBe(0);
+    expect(parseSeed(" 42 ")).toBe(42);
+    expect(parseSeed("4294967295")).toBe(4294967295);
+  });
+
+  it("rejects everything else", () => {
+    expect(parseSeed(null)).toBeNull();
+    expect(parseSeed(undefined)).toBeNull();
+    expect(parseSeed("")).toBeNull();
+    expect(parseSeed("4294967296")).toBeNull();
+    expect(parseSeed("-1")).toBeNull();
+    expect(parseSeed("1.5")).toBeNull();
+    expect(parseSeed("0x10")).toBeNull();
+    expect(parseSeed("1e3")).toBeNull();
+  });
+});
+
+describe("seeded generation", () => {
+  const { counts } = buildRanking(DRAWS, false);
+  const options = {
+    stats: buildNumberStats(DRAWS, false),
+    pairs: buildPairMatrix(DRAWS, false),
+  };
+
+  it.each(ALGO_MODES)("repeats %s tickets for the same seed", (mode) => {
+    const first = mulberry32(1234);
+    const second = mulberry32(1234);
+    for (let i = 0; i < 5; i += 1) {
+      const ticket = generateTicket(mode, counts, first, options);
+      expect(generateTicket(mode, counts, second, options)).toEqual(ticket);
+      expect(new Set(ticket).size).toBe(6);
+      expect(ticket.every((num) => num >= 1 && num <= 45)).toBe(true);
+    }
+  });
+});
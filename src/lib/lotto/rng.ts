@@ -0,0 +1,39 @@
+/** A random source returning floats in [0, 1), like Math.random. */
+export type Rng = () => number;
+
+const UINT32_RANGE = 2 ** 32;
+
+/** mulberry32: tiny 32-bit seeded PRNG, plenty for picking lotto numbers. */
+export function mulberry32(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / UINT32_RANGE;
+  };
+}
+
+/** Unseeded source backed by the Web Crypto API; not reproducible. */
+export function cryptoRng(): Rng {
+  const buffer = new Uint32Array(1);
+  return () => {
+    globalThis.crypto.getRandomValues(buffer);
+    return buffer[0] / UINT32_RANGE;
+  };
+}
+
+export function randomSeed() {
+  return globalThis.crypto.getRandomValues(new Uint32Array(1))[0];
+}
+
+/** Accepts a decimal uint32 seed; returns null for anything else. */
+export function parseSeed(value: string | null | undefined) {
+  const trimmed = value?.trim() ?? "";
+  if (!/^\d{1,10}$/.test(trimmed)) {
+    return null;
+  }
+  const seed = Number(trimmed);
+  return seed < UINT32_RANGE ? seed : null;
+}
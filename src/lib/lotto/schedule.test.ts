@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  CACHE_TTL_MS,
+  RESULT_POLL_MS,
+  isStale,
+  latestResultTime,
+  nextRefreshDelay,
+  nextResultTime,
+} from "./schedule";
+
+// Saturday 2024-06-01 20:45 KST.
+const RESULT = Date.parse("2024-06-01T11:45:00Z");
+const MINUTE = 1000 * 60;
+
+describe("latestResultTime", () => {
+  it("returns the same Saturday once the result time has passed", () => {
+    expect(latestResultTime(RESULT)).toBe(RESULT);
+    expect(latestResultTime(RESULT + 3 * 24 * 60 * MINUTE)).toBe(RESULT);
+  });
+
+  it("returns the previous Saturday before the result time", () => {
+    const weekBefore = RESULT - 7 * 24 * 60 * MINUTE;
+    expect(latestResultTime(RESULT - MINUTE)).toBe(weekBefore);
+    // Saturday morning in Korea is still Friday evening in UTC.
+    expect(latestResultTime(Date.parse("2024-05-31T23:00:00Z"))).toBe(
+      weekBefore,
+    );
+    expect(nextResultTime(RESULT - MINUTE)).toBe(RESULT);
+  });
+});
+
+describe("isStale", () => {
+  it("goes stale as soon as a new result is due", () => {
+    const updatedAt = RESULT - 10 * MINUTE;
+    expect(isStale(updatedAt, "2024-05-25", RESULT - MINUTE)).toBe(false);
+    expect(isStale(updatedAt, "2024-05-25", RESULT + MINUTE)).toBe(true);
+  });
+
+  it("polls while the due result is missing, then falls back to the TTL", () => {
+    const updatedAt = RESULT + 10 * MINUTE;
+    const polled = updatedAt + RESULT_POLL_MS;
+    expect(isStale(updatedAt, "2024-05-25", polled)).toBe(true);
+    expect(isStale(updatedAt, "2024-06-01", polled)).toBe(false);
+    expect(isStale(updatedAt, "2024-06-01", updatedAt + CACHE_TTL_MS)).toBe(
+      true,
+    );
+  });
+
+  it("schedules the next refresh for the next result time", () => {
+    expect(nextRefreshDelay("2024-05-25", RESULT + MINUTE)).toBe(
+      RESULT_POLL_MS,
+    );
+    expect(nextRefreshDelay("2024-06-01", RESULT + MINUTE)).toBe(
+      7 * 24 * 60 * MINUTE - MINUTE,
+    );
+  });
+});
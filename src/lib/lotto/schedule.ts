@@ -0,0 +1,77 @@
+// Draws are held Saturdays at 20:35 KST; results are normally published by
+// 20:45, so that is when the cache should look for a new draw.
+const KST_OFFSET_MS = 1000 * 60 * 60 * 9;
+const WEEK_MS = 1000 * 60 * 60 * 24 * 7;
+const DRAW_WEEKDAY = 6;
+const RESULT_HOUR_KST = 20;
+const RESULT_MINUTE_KST = 45;
+
+/** Upper bound on data age outside the draw window. */
+export const CACHE_TTL_MS = 1000 * 60 * 60 * 12;
+/** How often to look for a result that is due but not yet published. */
+export const RESULT_POLL_MS = 1000 * 60 * 5;
+/** How long after the result time polling continues before giving up. */
+const RESULT_POLL_WINDOW_MS = 1000 * 60 * 60 * 3;
+
+/** The most recent Saturday 20:45 KST at or before `now` (epoch ms). */
+export function latestResultTime(now: number) {
+  const kst = new Date(now + KST_OFFSET_MS);
+  const daysSinceDraw = (kst.getUTCDay() - DRAW_WEEKDAY + 7) % 7;
+  const candidate =
+    Date.UTC(
+      kst.getUTCFullYear(),
+      kst.getUTCMonth(),
+      kst.getUTCDate() - daysSinceDraw,
+      RESULT_HOUR_KST,
+      RESULT_MINUTE_KST,
+    ) - KST_OFFSET_MS;
+  return candidate > now ? candidate - WEEK_MS : candidate;
+}
+
+export function nextResultTime(now: number) {
+  return latestResultTime(now) + WEEK_MS;
+}
+
+/** Calendar date (YYYY-MM-DD) in Korea for an epoch-ms instant. */
+export function kstDateString(time: number) {
+  return new Date(time + KST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * True shortly after a draw while the cached latest draw is still the
+ * previous week's, i.e. when polling for the new result is worthwhile.
+ */
+export function isAwaitingResult(latestDrawDate: string | null, now: number) {
+  const resultTime = latestResultTime(now);
+  return (
+    latestDrawDate !== null &&
+    latestDrawDate < kstDateString(resultTime) &&
+    now - resultTime < RESULT_POLL_WINDOW_MS
+  );
+}
+
+/**
+ * Whether data fetched at `updatedAt` should be refreshed: a result has been
+ * published since, a due result is still being polled for, or the TTL ran out.
+ */
+export function isStale(
+  updatedAt: number,
+  latestDrawDate: string | null,
+  now: number,
+) {
+  if (updatedAt < latestResultTime(now)) {
+    return true;
+  }
+  if (isAwaitingResult(latestDrawDate, now)) {
+    return now - updatedAt >= RESULT_POLL_MS;
+  }
+  return now - updatedAt >= CACHE_TTL_MS;
+}
+
+/** Delay until the scheduler should next try to refresh. */
+export function nextRefreshDelay(latestDrawDate: string | null, now: number) {
+  if (isAwaitingResult(latestDrawDate, now)) {
+    return RESULT_POLL_MS;
+  }
+  return nextResultTime(now) - now;
+}
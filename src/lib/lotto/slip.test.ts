@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { buildRanking } from "./ranking";
+import { mulberry32 } from "./rng";
+import { generateSlip, ticketLabel, wheelPool } from "./slip";
+
+const POOL = [1, 5, 9, 13, 17, 21, 25, 29, 33, 37, 41, 45];
+
+function shared(a: number[], b: number[]) {
+  return a.filter((num) => b.includes(num)).length;
+}
+
+function maxPairShared(tickets: number[][]) {
+  let max = 0;
+  tickets.forEach((ticket, i) => {
+    for (const other of tickets.slice(i + 1)) {
+      max = Math.max(max, shared(ticket, other));
+    }
+  });
+  return max;
+}
+
+describe("ticketLabel", () => {
+  it("uses plain letters for one slip and slip numbers beyond", () => {
+    expect(ticketLabel(0, 5)).toBe("A");
+    expect(ticketLabel(4, 5)).toBe("E");
+    expect(ticketLabel(0, 6)).toBe("1-A");
+    expect(ticketLabel(5, 6)).toBe("2-A");
+    expect(ticketLabel(24, 25)).toBe("5-E");
+  });
+});
+
+describe("generateSlip", () => {
+  const { counts } = buildRanking([], false);
+
+  it("keeps every pair of tickets within maxShared", () => {
+    const tickets = generateSlip("weighted", counts, mulberry32(3), {
+      count: 10,
+      maxShared: 1,
+    });
+    expect(tickets).toHaveLength(10);
+    expect(maxPairShared(tickets)).toBeLessThanOrEqual(1);
+  });
+
+  it("gives up when no ticket can satisfy the limit", () => {
+    // Eight tickets cannot pairwise share zero numbers out of 45.
+    expect(() =>
+      generateSlip("weighted", counts, mulberry32(3), {
+        count: 8,
+        maxShared: 0,
+      }),
+    ).toThrow(expect.objectContaining({ name: "SlipError" }));
+  });
+});
+
+describe("wheelPool", () => {
+  it("spreads the pool evenly over the tickets", () => {
+    const tickets = wheelPool(POOL, mulberry32(5), { count: 4 });
+    const usage = POOL.map(
+      (num) => tickets.filter((ticket) => ticket.includes(num)).length,
+    );
+    expect(tickets.flat().every((num) => POOL.includes(num))).toBe(true);
+    expect(usage).toEqual(POOL.map(() => 2));
+  });
+
+  it("honours maxShared within the pool", () => {
+    const tickets = wheelPool(POOL, mulberry32(5), { count: 2, maxShared: 0 });
+    expect(shared(tickets[0], tickets[1])).toBe(0);
+  });
+
+  it("rejects small pools and impossible limits", () => {
+    expect(() =>
+      wheelPool([1, 2, 3, 4, 5, 5], mulberry32(5), { count: 1 }),
+    ).toThrow("a wheel needs at least 6 pool numbers");
+    expect(() =>
+      wheelPool(POOL, mulberry32(5), { count: 3, maxShared: 0 }),
+    ).toThrow(expect.objectContaining({ name: "SlipError" }));
+  });
+});
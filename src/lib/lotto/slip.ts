@@ -0,0 +1,118 @@
+import {
+  generateTicket,
+  type AlgoMode,
+  type GenerateOptions,
+} from "./algorithms";
+import { shuffle } from "./generators";
+import { TICKET_SIZE } from "./prize";
+import type { Rng } from "./rng";
+import type { RankingItem } from "./types";
+
+export const GAMES_PER_SLIP = 5;
+export const MAX_SLIP_TICKETS = 25;
+const DIVERSITY_ATTEMPTS = 300;
+const GAME_LETTERS = ["A", "B", "C", "D", "E"];
+
+export type SlipOptions = {
+  count: number;
+  /** Largest number of balls any two tickets may share; undefined = no limit. */
+  maxShared?: number;
+};
+
+export class SlipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SlipError";
+  }
+}
+
+/** "A"–"E" for a single slip, "2-C" style once tickets span several slips. */
+export function ticketLabel(index: number, total: number) {
+  const letter = GAME_LETTERS[index % GAMES_PER_SLIP];
+  if (total <= GAMES_PER_SLIP) {
+    return letter;
+  }
+  return `${Math.floor(index / GAMES_PER_SLIP) + 1}-${letter}`;
+}
+
+function sharedCount(a: number[], b: number[]) {
+  return a.filter((num) => b.includes(num)).length;
+}
+
+function fitsDiversity(
+  ticket: number[],
+  tickets: number[][],
+  maxShared: number | undefined,
+) {
+  return (
+    maxShared === undefined ||
+    tickets.every((other) => sharedCount(ticket, other) <= maxShared)
+  );
+}
+
+/**
+ * Generates `count` tickets with one algorithm, redrawing any ticket that
+ * shares more than `maxShared` numbers with an earlier one.
+ */
+export function generateSlip(
+  mode: AlgoMode,
+  counts: RankingItem[],
+  rng: Rng,
+  options: SlipOptions & GenerateOptions,
+) {
+  const tickets: number[][] = [];
+  while (tickets.length < options.count) {
+    let accepted: number[] | null = null;
+    for (let attempt = 0; attempt < DIVERSITY_ATTEMPTS; attempt += 1) {
+      const ticket = generateTicket(mode, counts, rng, options);
+      if (fitsDiversity(ticket, tickets, options.maxShared)) {
+        accepted = ticket;
+        break;
+      }
+    }
+    if (!accepted) {
+      throw new SlipError(
+        `could not find ticket ${tickets.length + 1} sharing at most ${options.maxShared} numbers with the others`,
+      );
+    }
+    tickets.push(accepted);
+  }
+  return tickets;
+}
+
+/**
+ * Spreads a pool of numbers over `count` tickets as evenly as possible
+ * (a simple abbreviated wheel): each ticket takes the least-used pool numbers,
+ * breaking ties randomly.
+ */
+export function wheelPool(pool: number[], rng: Rng, options: SlipOptions) {
+  const unique = [...new Set(pool)];
+  if (unique.length < TICKET_SIZE) {
+    throw new SlipError(`a wheel needs at least ${TICKET_SIZE} pool numbers`);
+  }
+  const usage = new Map(unique.map((num) => [num, 0]));
+  const tickets: number[][] = [];
+  while (tickets.length < options.count) {
+    let accepted: number[] | null = null;
+    for (let attempt = 0; attempt < DIVERSITY_ATTEMPTS; attempt += 1) {
+      const ticket = shuffle(unique, rng)
+        .sort((a, b) => usage.get(a)! - usage.get(b)!)
+        .slice(0, TICKET_SIZE)
+        .sort((a, b) => a - b);
+      if (fitsDiversity(ticket, tickets, options.maxShared)) {
+        accepted = ticket;
+        break;
+      }
+    }
+    if (!accepted) {
+      throw new SlipError(
+        `the pool cannot fit ${options.count} tickets sharing at most ${options.maxShared} numbers`,
+      );
+    }
+    for (const num of accepted) {
+      usage.set(num, usage.get(num)! + 1);
+    }
+    tickets.push(accepted);
+  }
+  return tickets;
+}
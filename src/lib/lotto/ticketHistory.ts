@@ -0,0 +1,25 @@
+import type { TicketResult } from "./prize";
+
+export type HistorySource = "generated" | "scanned";
+
+/** A graded ticket as saved; payouts are missing on entries graded before they were reported. */
+export type SavedTicketResult = Omit<TicketResult, "payout" | "payoutExact"> &
+  Partial<Pick<TicketResult, "payout" | "payoutExact">>;
+
+/** One saved set of tickets; stored in the browser and posted for export. */
+export type HistoryEntry = {
+  id: string;
+  source: HistorySource;
+  /** Algorithm mode, "wheel", or "qr" for scanned tickets. */
+  algorithm: string;
+  seed: number | null;
+  targetDraw: number;
+  createdAt: string;
+  tickets: number[][];
+  result?: {
+    drawDate: string;
+    results: SavedTicketResult[];
+    winnings: number;
+    gradedAt: string;
+  };
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { parseTicketQr } from "./ticketQr";
+
+// Round 887 with two auto games, one manual game and the ticket serial.
+const TICKET_URL =
+  "http://m.dhlottery.co.kr/?v=0887q041527303839q021923313441m130125203441" +
+  "1234567890";
+
+function reasonOf(text: string) {
+  try {
+    parseTicketQr(text);
+    return null;
+  } catch (error) {
+    return (error as { reason?: string }).reason;
+  }
+}
+
+describe("parseTicketQr", () => {
+  it("reads the round and every game of a real ticket", () => {
+    expect(parseTicketQr(` ${TICKET_URL}\n`)).toEqual({
+      drawNo: 887,
+      games: [
+        { label: "A", mode: "auto", numbers: [4, 15, 27, 30, 38, 39] },
+        { label: "B", mode: "auto", numbers: [2, 19, 23, 31, 34, 41] },
+        { label: "C", mode: "manual", numbers: [1, 13, 20, 25, 34, 41] },
+      ],
+      url: TICKET_URL,
+    });
+  });
+
+  it("ignores a missing or differently sized serial suffix", () => {
+    const game = "q041527303839";
+    for (const serial of ["", "42", "12345678901234567890"]) {
+      const ticket = parseTicketQr(
+        `https://dhlottery.co.kr/qr.do?method=winQr&v=1100${game}${serial}`,
+      );
+      expect(ticket.drawNo).toBe(1100);
+      expect(ticket.games).toHaveLength(1);
+    }
+  });
+
+  it("rejects anything that is not a dhlottery ticket URL", () => {
+    expect(reasonOf("0887q041527303839")).toBe("notUrl");
+    expect(reasonOf("ftp://m.dhlottery.co.kr/?v=0887q041527303839")).toBe(
+      "notUrl",
+    );
+    expect(
+      reasonOf("http://dhlottery.co.kr.evil.example/?v=0887q041527303839"),
+    ).toBe("notLotto");
+    expect(reasonOf("http://notdhlottery.co.kr/?v=0887q041527303839")).toBe(
+      "notLotto",
+    );
+    expect(reasonOf("http://m.dhlottery.co.kr/?x=0887q041527303839")).toBe(
+      "notLotto",
+    );
+  });
+
+  it("rejects malformed or short game segments", () => {
+    const base = "http://m.dhlottery.co.kr/?v=";
+    expect(reasonOf(`${base}0887`)).toBe("malformed");
+    expect(reasonOf(`${base}0887q0415273038`)).toBe("malformed");
+    expect(reasonOf(`${base}0887q04152730383`)).toBe("malformed");
+    expect(reasonOf(`${base}0887q04152730383?q041527303839`)).toBe("malformed");
+    expect(reasonOf(`${base}0000q041527303839`)).toBe("malformed");
+    expect(reasonOf(`${base}0887${"q041527303839".repeat(6)}`)).toBe(
+      "malformed",
+    );
+  });
+
+  it("rejects out-of-range and repeated numbers", () => {
+    const base = "http://m.dhlottery.co.kr/?v=0887";
+    expect(reasonOf(`${base}q001527303839`)).toBe("malformed");
+    expect(reasonOf(`${base}q041527303846`)).toBe("malformed");
+    expect(reasonOf(`${base}q041527303030`)).toBe("malformed");
+    expect(() => parseTicketQr(`${base}q041527303839q041527303899`)).toThrow(
+      "game B has invalid numbers",
+    );
+  });
+});
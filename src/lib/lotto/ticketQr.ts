@@ -0,0 +1,97 @@
+import { MAX_NUMBER, TICKET_SIZE } from "./prize";
+
+export type TicketGameMode = "auto" | "manual" | "semiAuto" | "unknown";
+
+export type TicketGame = {
+  label: string;
+  mode: TicketGameMode;
+  numbers: number[];
+};
+
+export type TicketQr = {
+  drawNo: number;
+  games: TicketGame[];
+  url: string;
+};
+
+export type TicketQrErrorReason = "notUrl" | "notLotto" | "malformed";
+
+export class TicketQrError extends Error {
+  readonly reason: TicketQrErrorReason;
+
+  constructor(reason: TicketQrErrorReason, message: string) {
+    super(message);
+    this.name = "TicketQrError";
+    this.reason = reason;
+  }
+}
+
+const GAME_LABELS = ["A", "B", "C", "D", "E"];
+const MODE_BY_CODE: Record<string, TicketGameMode> = {
+  q: "auto",
+  m: "manual",
+  s: "semiAuto",
+};
+
+// `v=<round><code><12 digits>…` where each game is a one-letter mode code
+// followed by six zero-padded numbers; a numeric ticket serial trails.
+const PAYLOAD_PATTERN = /^(\d{1,4})((?:[a-z]\d{12}){1,5})(\d*)$/i;
+const GAME_PATTERN = /([a-z])(\d{12})/gi;
+
+function isLottoHost(host: string) {
+  return host === "dhlottery.co.kr" || host.endsWith(".dhlottery.co.kr");
+}
+
+/** Parses the round and games encoded in an official Lotto 6/45 ticket QR. */
+export function parseTicketQr(text: string): TicketQr {
+  let url: URL;
+  try {
+    url = new URL(text.trim());
+  } catch {
+    throw new TicketQrError("notUrl", "QR payload is not a URL");
+  }
+  if (!/^https?:$/.test(url.protocol)) {
+    throw new TicketQrError("notUrl", "QR payload is not an http(s) URL");
+  }
+
+  const payload = url.searchParams.get("v");
+  if (!isLottoHost(url.hostname) || !payload) {
+    throw new TicketQrError("notLotto", "QR is not a dhlottery ticket");
+  }
+
+  const match = PAYLOAD_PATTERN.exec(payload);
+  if (!match) {
+    throw new TicketQrError(
+      "malformed",
+      `unrecognized ticket payload: ${payload}`,
+    );
+  }
+
+  const drawNo = Number(match[1]);
+  if (drawNo < 1) {
+    throw new TicketQrError("malformed", "ticket round must be positive");
+  }
+
+  const games: TicketGame[] = [];
+  for (const [, code, digits] of match[2].matchAll(GAME_PATTERN)) {
+    const numbers = Array.from({ length: TICKET_SIZE }, (_, index) =>
+      Number(digits.slice(index * 2, index * 2 + 2)),
+    );
+    if (
+      numbers.some((n) => n < 1 || n > MAX_NUMBER) ||
+      new Set(numbers).size !== numbers.length
+    ) {
+      throw new TicketQrError(
+        "malformed",
+        `game ${GAME_LABELS[games.length]} has invalid numbers`,
+      );
+    }
+    games.push({
+      label: GAME_LABELS[games.length],
+      mode: MODE_BY_CODE[code.toLowerCase()] ?? "unknown",
+      numbers: numbers.sort((a, b) => a - b),
+    });
+  }
+
+  return { drawNo, games, url: text.trim() };
+}
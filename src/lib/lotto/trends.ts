@@ -0,0 +1,70 @@
+import type { Draw } from "./types";
+
+export type TrendPoint = { drwNo: number; count: number };
+
+export type NumberTrend = {
+  num: number;
+  /** Hits in the `size` draws ending at each drwNo (full windows only). */
+  points: TrendPoint[];
+};
+
+export type CumulativeFrame = {
+  drwNo: number;
+  /** Hits per number up to and including drwNo; index = number − 1. */
+  counts: number[];
+};
+
+function hitsOf(draw: Draw, includeBonus: boolean) {
+  return includeBonus ? [...draw.numbers, draw.bonus] : draw.numbers;
+}
+
+/** Rolling hit counts for each of `nums` over ascending `draws`. */
+export function rollingTrends(
+  draws: Draw[],
+  nums: number[],
+  size: number,
+  includeBonus: boolean,
+): NumberTrend[] {
+  return nums.map((num) => {
+    const hits = draws.map((draw) =>
+      hitsOf(draw, includeBonus).includes(num) ? 1 : 0,
+    );
+    const points: TrendPoint[] = [];
+    let running = 0;
+    hits.forEach((hit, index) => {
+      running += hit;
+      if (index >= size) {
+        running -= hits[index - size];
+      }
+      if (index >= size - 1) {
+        points.push({ drwNo: draws[index].drwNo, count: running });
+      }
+    });
+    return { num, points };
+  });
+}
+
+/**
+ * Snapshots of the running frequency table at `frameCount` evenly spaced
+ * draws, ending with the last one, for animating how counts build up.
+ */
+export function cumulativeFrames(
+  draws: Draw[],
+  frameCount: number,
+  includeBonus: boolean,
+): CumulativeFrame[] {
+  const frames: CumulativeFrame[] = [];
+  const counts = Array.from({ length: 45 }, () => 0);
+  const total = Math.min(frameCount, draws.length);
+  let nextFrame = 1;
+  draws.forEach((draw, index) => {
+    for (const num of hitsOf(draw, includeBonus)) {
+      counts[num - 1] += 1;
+    }
+    if (index + 1 === Math.round((nextFrame * draws.length) / total)) {
+      frames.push({ drwNo: draw.drwNo, counts: [...counts] });
+      nextFrame += 1;
+    }
+  });
+  return frames;
+}
@@ -0,0 +1,25 @@
+/** First-prize payout and sales for one draw, in KRW. */
+export type DrawPrize = {
+  /** Paid to each first-prize ticket (`firstWinamnt`); 0 without a winner. */
+  firstPrize: number;
+  /** Number of first-prize tickets (`firstPrzwnerCo`). */
+  firstWinners: number;
+  /** First-prize pool shared by the winners (`firstAccumamnt`). */
+  firstPrizeTotal: number;
+  /** Total sales (KRW) for the draw (`totSellamnt`). */
+  totalSales: number;
+};
+
+export type Draw = {
+  drwNo: number;
+  drwNoDate: string;
+  numbers: number[];
+  bonus: number;
+  /** Absent for draws imported or cached without prize data. */
+  prize?: DrawPrize;
+};
+
+export type RankingItem = {
+  num: number;
+  count: number;
+};
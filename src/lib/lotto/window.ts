@@ -0,0 +1,115 @@
+import type { Draw } from "./types";
+
+export type DrawWindowQuery = {
+  lastN?: number;
+  fromDraw?: number;
+  toDraw?: number;
+  fromDate?: string;
+  toDate?: string;
+};
+
+export type DrawWindow = DrawWindowQuery & {
+  drawCount: number;
+  firstDraw: number | null;
+  lastDraw: number | null;
+  firstDate: string | null;
+  lastDate: string | null;
+};
+
+export class WindowParamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WindowParamError";
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parsePositiveInt(params: URLSearchParams, key: string) {
+  const raw = params.get(key);
+  if (raw === null || raw === "") {
+    return undefined;
+  }
+  if (!/^\d+$/.test(raw) || Number(raw) < 1) {
+    throw new WindowParamError(`${key} must be a positive integer`);
+  }
+  return Number(raw);
+}
+
+function parseDate(params: URLSearchParams, key: string) {
+  const raw = params.get(key);
+  if (raw === null || raw === "") {
+    return undefined;
+  }
+  const parsed = new Date(`${raw}T00:00:00Z`);
+  if (
+    !DATE_PATTERN.test(raw) ||
+    Number.isNaN(parsed.getTime()) ||
+    parsed.toISOString().slice(0, 10) !== raw
+  ) {
+    throw new WindowParamError(`${key} must be a valid YYYY-MM-DD date`);
+  }
+  return raw;
+}
+
+export function parseWindowQuery(params: URLSearchParams): DrawWindowQuery {
+  const query: DrawWindowQuery = {
+    lastN: parsePositiveInt(params, "lastN"),
+    fromDraw: parsePositiveInt(params, "fromDraw"),
+    toDraw: parsePositiveInt(params, "toDraw"),
+    fromDate: parseDate(params, "fromDate"),
+    toDate: parseDate(params, "toDate"),
+  };
+  if (
+    query.fromDraw !== undefined &&
+    query.toDraw !== undefined &&
+    query.fromDraw > query.toDraw
+  ) {
+    throw new WindowParamError("fromDraw must not be greater than toDraw");
+  }
+  // ISO dates compare correctly as strings.
+  if (query.fromDate && query.toDate && query.fromDate > query.toDate) {
+    throw new WindowParamError("fromDate must not be after toDate");
+  }
+  return query;
+}
+
+/**
+ * Applies the draw-number and date ranges first, then keeps the most recent
+ * `lastN` of what is left. Returns the draws in ascending draw order.
+ */
+export function selectWindow(draws: Iterable<Draw>, query: DrawWindowQuery) {
+  let selected = [...draws]
+    .filter((draw) => {
+      if (query.fromDraw !== undefined && draw.drwNo < query.fromDraw) {
+        return false;
+      }
+      if (query.toDraw !== undefined && draw.drwNo > query.toDraw) {
+        return false;
+      }
+      if (query.fromDate && draw.drwNoDate < query.fromDate) {
+        return false;
+      }
+      if (query.toDate && draw.drwNoDate > query.toDate) {
+        return false;
+      }
+      return true;
+    })
+    .sort((a, b) => a.drwNo - b.drwNo);
+
+  if (query.lastN !== undefined) {
+    selected = selected.slice(-query.lastN);
+  }
+
+  const first = selected[0];
+  const last = selected[selected.length - 1];
+  const window: DrawWindow = {
+    ...query,
+    drawCount: selected.length,
+    firstDraw: first?.drwNo ?? null,
+    lastDraw: last?.drwNo ?? null,
+    firstDate: first?.drwNoDate ?? null,
+    lastDate: last?.drwNoDate ?? null,
+  };
+  return { draws: selected, window };
+}